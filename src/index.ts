@@ -7,6 +7,12 @@
  * - Fetching Apple Developer Documentation
  * - Analyzing Xcode build logs
  * - Checking Swift Evolution proposals
+ * - Browsing framework topic trees
+ * - Checking API availability against deployment targets
+ * - Looking up Human Interface Guidelines
+ * - Diffing framework APIs between SDK releases
+ * - Scanning Swift source for the minimum Swift version it needs
+ * - Migrating legacy Swift patterns to modern language features
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -17,9 +23,24 @@ import {
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 
+import { parseDocLanguage } from "./lib/docc-variants.js";
+import { toToolResult } from "./lib/tool-output.js";
 import { fetchAppleDocs } from "./tools/fetch-apple-docs.js";
 import { analyzeBuildLog } from "./tools/xcode-diagnostic-analyzer.js";
-import { checkSwiftEvolution } from "./tools/swift-evolution-check.js";
+import { checkSwiftEvolution, listSwiftChanges } from "./tools/swift-evolution-check.js";
+import { browseAppleFramework } from "./tools/browse-apple-framework.js";
+import { checkApiAvailability } from "./tools/check-api-availability.js";
+import { fetchHigGuidance } from "./tools/fetch-hig-guidance.js";
+import { diffAppleFramework } from "./tools/diff-apple-framework.js";
+import { scanSwiftFeatures } from "./tools/scan-swift-features.js";
+import { migrateSwift } from "./tools/swift-migrate.js";
+
+// Output format argument shared by tools with structured output
+const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["markdown", "json", "both"],
+  description: "Optional: Output format - 'markdown' (default), 'json' or 'both'. Structured content is always included."
+};
 
 // Tool definitions
 const TOOLS: Tool[] = [
@@ -33,7 +54,12 @@ Examples:
 - "RealityKit" - AR/VR framework
 - "async/await" - Swift concurrency
 
-Returns official documentation summary, code examples, and availability information.`,
+Returns official documentation summary, code examples, and availability information,
+including deprecations, beta status and availability ranges.
+
+With mode 'guide', fetches articles, sample code projects and tutorials by title or URL
+(e.g., "Adopting SwiftData for a Core Data app"), including tutorial steps, code files
+and the sample project download link.`,
     inputSchema: {
       type: "object",
       properties: {
@@ -48,26 +74,90 @@ Returns official documentation summary, code examples, and availability informat
         includeExamples: {
           type: "boolean",
           description: "Whether to include code examples (default: true)"
-        }
+        },
+        platform: {
+          type: "string",
+          description: "Optional: Limit availability to one platform (e.g., 'iOS', 'macOS', 'visionOS')"
+        },
+        mode: {
+          type: "string",
+          enum: ["symbol", "guide"],
+          description: "Optional: 'symbol' for API reference (default), 'guide' for articles, sample code and tutorials"
+        },
+        language: {
+          type: "string",
+          enum: ["swift", "objc"],
+          description: "Optional: 'swift' (default) or 'objc' for the Objective-C title, declaration, selector and abstract"
+        },
+        format: FORMAT_PROPERTY
       },
       required: ["query"]
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        status: { type: "string", enum: ["found", "ambiguous", "not_found", "error"] },
+        query: { type: "string" },
+        result: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            description: { type: "string" },
+            url: { type: "string" },
+            type: { type: "string" },
+            framework: { type: "string" },
+            availability: { type: "array", items: { type: "string" } },
+            codeExamples: { type: "array", items: { type: "string" } },
+            declaration: { type: "string" },
+            overview: { type: "string" },
+            downloadURL: { type: "string" },
+            language: { type: "string", enum: ["swift", "objc"] },
+            source: { type: "string" }
+          },
+          required: ["title", "description", "url", "type"]
+        },
+        candidates: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              name: { type: "string" },
+              kind: { type: "string" },
+              framework: { type: "string" },
+              path: { type: "string" },
+              url: { type: "string" },
+              signature: { type: "string" },
+              source: { type: "string" }
+            },
+            required: ["name", "kind", "framework", "path"]
+          }
+        },
+        error: { type: "string" }
+      },
+      required: ["status", "query"]
     }
   },
   {
     name: "xcode_diagnostic_analyzer",
     description: `Analyzes Xcode build logs and error messages, providing:
+- Every clang/swiftc diagnostic with its file, line and column, notes and source excerpt
 - Error classification and explanation
 - Fix-it suggestions matching Apple's recommendations
 - Related documentation links
 - Common solutions for the specific error
 
-Supports Swift compiler errors, linker errors, and build system errors.`,
+Supports Swift compiler errors, linker errors, and build system errors.
+Diagnostics repeated for each architecture are reported once.
+
+Set xcresultPath to read the JSON exported from an .xcresult bundle
+(xcrun xcresulttool get --legacy --format json), or a directory of exports:
+its error, warning and test failure summaries are analyzed the same way.`,
     inputSchema: {
       type: "object",
       properties: {
         buildLog: {
           type: "string",
-          description: "The Xcode build log or error message to analyze"
+          description: "The Xcode build log or error message to analyze (optional with xcresultPath)"
         },
         errorCode: {
           type: "string",
@@ -76,19 +166,81 @@ Supports Swift compiler errors, linker errors, and build system errors.`,
         context: {
           type: "string",
           description: "Optional: Additional context about the project (Swift version, target platform)"
+        },
+        xcresultPath: {
+          type: "string",
+          description: "Optional: Path to JSON exported from an .xcresult bundle, or a directory of exports"
+        },
+        format: FORMAT_PROPERTY
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        issueCount: { type: "number" },
+        errorCount: { type: "number" },
+        warningCount: { type: "number" },
+        diagnostics: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              errorType: { type: "string" },
+              severity: { type: "string", enum: ["error", "warning", "note"] },
+              message: { type: "string" },
+              file: { type: "string" },
+              line: { type: "number" },
+              column: { type: "number" },
+              explanation: { type: "string" },
+              fixItSuggestions: { type: "array", items: { type: "string" } },
+              relatedDocs: { type: "array", items: { type: "string" } },
+              codeExample: { type: "string" },
+              notes: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    message: { type: "string" },
+                    file: { type: "string" },
+                    line: { type: "number" },
+                    column: { type: "number" }
+                  },
+                  required: ["message"]
+                }
+              },
+              excerpt: { type: "string" },
+              occurrences: { type: "number" },
+              testCase: { type: "string" }
+            },
+            required: ["errorType", "severity", "message", "explanation", "fixItSuggestions", "relatedDocs"]
+          }
         }
       },
-      required: ["buildLog"]
+      required: ["issueCount", "errorCount", "warningCount", "diagnostics"]
     }
   },
   {
     name: "swift_evolution_check",
     description: `Checks the status of Swift language features against Swift Evolution proposals.
 
+Proposals come from a local swift-evolution clone when APPLE_DEV_MCP_EVOLUTION_REPO is set,
+otherwise from the official swift-evolution metadata feed (every proposal, with status,
+implementing version, authors and upcoming feature flag), refreshed daily.
+Set includeDetails to get a proposal's Motivation and Detailed design sections.
+Results are ranked by relevance across proposal ID, title, keywords and summary,
+tolerating plurals and typos. Each result lists the proposals it supersedes, amends,
+revises or relates to, and a returned or superseded proposal points at the one that
+replaced it.
+
+Set whatsNewIn to list every proposal implemented in a release ('6.0', '5.10', '6.0.3', 'Next'),
+grouped by area; add upgradingFrom to list everything gained between two releases
+(upgradingFrom '5.8', whatsNewIn '6.0'). A feature narrows the listing.
+
 Use this to verify:
 - If a feature is available in a specific Swift version
 - The proposal number and status (implemented, in review, accepted)
-- Required compiler flags or availability annotations
+- The upcoming or experimental feature flag, with ready-to-paste Package.swift,
+  OTHER_SWIFT_FLAGS and command-line settings to adopt it before its language mode
 - Migration guidance from older syntax
 
 Examples: 'nonisolated(unsafe)', 'typed throws', 'parameter packs', 'macros'`,
@@ -97,14 +249,290 @@ Examples: 'nonisolated(unsafe)', 'typed throws', 'parameter packs', 'macros'`,
       properties: {
         feature: {
           type: "string",
-          description: "The Swift feature or syntax to check (e.g., 'nonisolated(unsafe)', 'typed throws')"
+          description: "The Swift feature or syntax to check (e.g., 'nonisolated(unsafe)', 'typed throws'); required unless whatsNewIn or upgradingFrom is given"
         },
         swiftVersion: {
           type: "string",
           description: "Optional: Target Swift version to check compatibility (e.g., '5.9', '6.0')"
+        },
+        includeDetails: {
+          type: "boolean",
+          description: "Include the Introduction, Motivation and Detailed design sections of each matching proposal (up to 3 matches)",
+          default: false
+        },
+        limit: {
+          type: "number",
+          description: "Optional: Maximum number of proposals to return, best match first (default 5, max 25)",
+          default: 5
+        },
+        whatsNewIn: {
+          type: "string",
+          description: "Optional: List every proposal implemented in this Swift version (e.g., '6.0', '5.10', '6.0.3', 'Next'), grouped by area"
+        },
+        upgradingFrom: {
+          type: "string",
+          description: "Optional: List everything gained moving from this Swift version to whatsNewIn (default: the latest release)"
+        },
+        format: FORMAT_PROPERTY
+      }
+    },
+    outputSchema: {
+      type: "object",
+      properties: {
+        feature: { type: "string" },
+        swiftVersion: { type: "string" },
+        whatsNewIn: { type: "string" },
+        upgradingFrom: { type: "string" },
+        proposals: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              title: { type: "string" },
+              status: { type: "string" },
+              swiftVersion: { type: "string" },
+              summary: { type: "string" },
+              link: { type: "string" },
+              keywords: { type: "array", items: { type: "string" } },
+              authors: { type: "array", items: { type: "string" } },
+              reviewManagers: { type: "array", items: { type: "string" } },
+              implementation: { type: "array", items: { type: "string" } },
+              upcomingFeatureFlag: {
+                type: "object",
+                properties: {
+                  flag: { type: "string" },
+                  enabledInLanguageMode: { type: "string" }
+                },
+                required: ["flag"]
+              },
+              experimentalFeatureFlag: { type: "string" },
+              buildSettings: {
+                type: "object",
+                properties: {
+                  flag: { type: "string" },
+                  kind: { type: "string", enum: ["upcoming", "experimental"] },
+                  enabledInLanguageMode: { type: "string" },
+                  packageSwift: { type: "string" },
+                  otherSwiftFlags: { type: "string" },
+                  commandLine: { type: "string" }
+                },
+                required: ["flag", "kind", "packageSwift", "otherSwiftFlags", "commandLine"]
+              },
+              previousRevisions: { type: "array", items: { type: "string" } },
+              introduction: { type: "string" },
+              availableInTargetVersion: { type: "boolean" },
+              sections: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    title: { type: "string" },
+                    content: { type: "string" }
+                  },
+                  required: ["title", "content"]
+                }
+              },
+              area: { type: "string" },
+              relations: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    kind: {
+                      type: "string",
+                      enum: ["supersedes", "superseded-by", "amends", "amended-by", "previous-revision", "next-revision", "related"]
+                    },
+                    id: { type: "string" }
+                  },
+                  required: ["kind", "id"]
+                }
+              },
+              chain: { type: "array", items: { type: "string" } }
+            },
+            required: ["id", "title", "status", "summary", "link", "keywords"]
+          }
+        }
+      },
+      required: ["proposals"]
+    }
+  },
+  {
+    name: "browse_apple_framework",
+    description: `Browses the Apple Developer Documentation topic tree for a framework or symbol.
+
+Returns child topics grouped by section, with each topic's kind and one-line abstract,
+plus relationships (conforms to, inherits from, conforming types). Use it to find the
+right API before fetching it with fetch_latest_apple_docs.
+
+Examples: 'SwiftUI', 'swiftui/view', 'foundation/urlsession'`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "Framework name or documentation path (e.g., 'SwiftUI', 'swiftui/view')"
+        },
+        section: {
+          type: "string",
+          description: "Optional: Only show topic sections whose title contains this text (e.g., 'Navigation')"
+        },
+        page: {
+          type: "number",
+          description: "Optional: Page number, starting at 1 (default: 1)"
+        },
+        pageSize: {
+          type: "number",
+          description: "Optional: Topics per page (default: 30)"
+        }
+      },
+      required: ["path"]
+    }
+  },
+  {
+    name: "check_api_availability",
+    description: `Checks Apple APIs against deployment targets using the availability metadata in Apple's documentation.
+
+Takes symbol names or Swift source text and reports each API introduced after the
+deployment target, with the @available / if #available guard needed.
+
+Example: symbols ['ContentUnavailableView', 'scrollTargetBehavior'] with deploymentTarget 'iOS 16.0'`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        deploymentTarget: {
+          type: "string",
+          description: "Comma-separated deployment targets (e.g., 'iOS 16.0, macOS 13.0')"
+        },
+        symbols: {
+          type: "array",
+          items: { type: "string" },
+          description: "Optional: API names to check (e.g., ['NavigationStack', 'URLSession.data(for:)'])"
+        },
+        source: {
+          type: "string",
+          description: "Optional: Swift source text to scan for Apple API references"
+        },
+        framework: {
+          type: "string",
+          description: "Optional: Framework to resolve names within (e.g., 'SwiftUI')"
+        }
+      },
+      required: ["deploymentTarget"]
+    }
+  },
+  {
+    name: "fetch_hig_guidance",
+    description: `Fetches Apple's Human Interface Guidelines for a design topic or question.
+
+Returns the guideline pages that match, rendered from Apple's design documentation,
+with their platform considerations. Pass a platform to keep only that platform's section.
+
+Examples:
+- "Sheets" - when and how to present sheets
+- "how big should a tap target be" - minimum control sizes
+- "sheet vs. popover" with platform 'iPadOS'`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        topic: {
+          type: "string",
+          description: "Design topic, question or guidelines URL (e.g., 'Sheets', 'tap target size')"
+        },
+        platform: {
+          type: "string",
+          description: "Optional: Only show this platform's considerations (e.g., 'iPadOS', 'visionOS')"
+        }
+      },
+      required: ["topic"]
+    }
+  },
+  {
+    name: "diff_apple_framework",
+    description: `Lists the APIs added, modified and deprecated in a framework between two SDK releases.
+
+Uses the change markers behind the "API Changes" toggle on developer.apple.com, walking
+into modified types to list their changed members, with links to each symbol.
+
+Example: framework 'SwiftUI', from 'iOS 17', to 'iOS 18'`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        framework: {
+          type: "string",
+          description: "Framework name or documentation path (e.g., 'SwiftUI', 'swiftui/view')"
+        },
+        from: {
+          type: "string",
+          description: "Earlier SDK release (e.g., 'iOS 17')"
+        },
+        to: {
+          type: "string",
+          description: "Later SDK release (e.g., 'iOS 18' or '18')"
+        },
+        changeType: {
+          type: "string",
+          enum: ["added", "modified", "deprecated"],
+          description: "Optional: Only list one kind of change"
+        }
+      },
+      required: ["framework", "from", "to"]
+    }
+  },
+  {
+    name: "scan_swift_features",
+    description: `Scans Swift source for language features tied to Swift Evolution proposals
+and reports the minimum Swift compiler version the code needs.
+
+Detects if/switch expressions, parameter packs, ~Copyable, borrowing/consuming,
+typed throws, nonisolated(unsafe), macros, @Observable, if let shorthand and more,
+with file:line evidence for each. Compares against the package's swift-tools-version
+to tell whether it can still claim an older one.
+
+Example: path '/Users/me/MyPackage' or 'Sources/MyModule/Model.swift'`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        path: {
+          type: "string",
+          description: "A .swift file or a directory to scan recursively (e.g., a package root)"
+        },
+        toolsVersion: {
+          type: "string",
+          description: "Optional: swift-tools-version to check against (e.g., '5.8'); defaults to the one in the directory's Package.swift"
         }
       },
-      required: ["feature"]
+      required: ["path"]
+    }
+  },
+  {
+    name: "swift_migrate",
+    description: `Rewrites legacy Swift patterns in a snippet to the language features that replaced them.
+
+Migrations:
+- observable: ObservableObject/@Published to @Observable, with @StateObject, @ObservedObject
+  and @EnvironmentObject updated to @State, @Bindable and @Environment
+- async-await: functions with a trailing completion handler to async (throws) functions
+- main-actor: DispatchQueue.main.async/asyncAfter to Task { @MainActor in }
+- if-let-shorthand: 'if let x = x' to 'if let x'
+- main-attribute: @UIApplicationMain/@NSApplicationMain to @main
+
+Returns the rewritten snippet, a unified diff and caveats linked to the Swift Evolution
+proposal behind each change. Comments and string literals are left untouched.`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        code: {
+          type: "string",
+          description: "The Swift code to migrate"
+        },
+        target: {
+          type: "string",
+          enum: ["observable", "async-await", "main-actor", "if-let-shorthand", "main-attribute"],
+          description: "Optional: Apply only this migration; all of them by default"
+        }
+      },
+      required: ["code"]
     }
   }
 ];
@@ -137,28 +565,102 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const result = await fetchAppleDocs(
           args?.query as string,
           args?.framework as string | undefined,
-          args?.includeExamples as boolean | undefined
+          args?.includeExamples as boolean | undefined,
+          args?.platform as string | undefined,
+          args?.mode === "guide" ? "guide" : "symbol",
+          parseDocLanguage(args?.language as string | undefined)
         );
-        return {
-          content: [{ type: "text", text: result }]
-        };
+        return toToolResult(result, args?.format as string | undefined);
       }
 
       case "xcode_diagnostic_analyzer": {
         const result = await analyzeBuildLog(
-          args?.buildLog as string,
+          args?.buildLog as string | undefined,
           args?.errorCode as string | undefined,
-          args?.context as string | undefined
+          args?.context as string | undefined,
+          args?.xcresultPath as string | undefined
+        );
+        return toToolResult(result, args?.format as string | undefined);
+      }
+
+      case "swift_evolution_check": {
+        if (args?.whatsNewIn || args?.upgradingFrom) {
+          const result = await listSwiftChanges(
+            args?.whatsNewIn as string | undefined,
+            args?.upgradingFrom as string | undefined,
+            args?.feature as string | undefined
+          );
+          return toToolResult(result, args?.format as string | undefined);
+        }
+        const result = await checkSwiftEvolution(
+          args?.feature as string | undefined,
+          args?.swiftVersion as string | undefined,
+          args?.includeDetails as boolean | undefined,
+          args?.limit as number | undefined
+        );
+        return toToolResult(result, args?.format as string | undefined);
+      }
+
+      case "browse_apple_framework": {
+        const result = await browseAppleFramework(
+          args?.path as string,
+          args?.section as string | undefined,
+          args?.page as number | undefined,
+          args?.pageSize as number | undefined
         );
         return {
           content: [{ type: "text", text: result }]
         };
       }
 
-      case "swift_evolution_check": {
-        const result = await checkSwiftEvolution(
-          args?.feature as string,
-          args?.swiftVersion as string | undefined
+      case "check_api_availability": {
+        const result = await checkApiAvailability(
+          args?.deploymentTarget as string,
+          args?.symbols as string[] | undefined,
+          args?.source as string | undefined,
+          args?.framework as string | undefined
+        );
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "fetch_hig_guidance": {
+        const result = await fetchHigGuidance(
+          args?.topic as string,
+          args?.platform as string | undefined
+        );
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "diff_apple_framework": {
+        const result = await diffAppleFramework(
+          args?.framework as string,
+          args?.from as string,
+          args?.to as string,
+          args?.changeType as string | undefined
+        );
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "scan_swift_features": {
+        const result = await scanSwiftFeatures(
+          args?.path as string,
+          args?.toolsVersion as string | undefined
+        );
+        return {
+          content: [{ type: "text", text: result }]
+        };
+      }
+
+      case "swift_migrate": {
+        const result = await migrateSwift(
+          args?.code as string,
+          args?.target as string | undefined
         );
         return {
           content: [{ type: "text", text: result }]
@@ -0,0 +1,79 @@
+/**
+ * Apple Documentation Client
+ *
+ * Fetches DocC render JSON for documentation, tutorial and design pages from developer.apple.com.
+ */
+
+import { APPLE_DEVELOPER_BASE_URL } from "./config.js";
+import { fetchJSONWithCache } from "./doc-cache.js";
+import { APIChange, AppleDocJSON } from "./docc-types.js";
+
+// Apple Documentation JSON API base
+export const APPLE_DOCS_API = `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/documentation`;
+
+// Apple Tutorials JSON API base
+export const APPLE_TUTORIALS_API = `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/tutorials`;
+
+// API change markers behind the "API Changes" toggle
+export const APPLE_DIFFS_API = `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/diffs/documentation`;
+
+// Apple Design (Human Interface Guidelines) JSON API base
+export const APPLE_DESIGN_API = `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/design`;
+
+/**
+ * Framework to documentation path mappings
+ */
+export const FRAMEWORK_PATHS: Record<string, string[]> = {
+  "swiftui": ["swiftui"],
+  "uikit": ["uikit"],
+  "foundation": ["foundation"],
+  "observation": ["observation"],
+  "swiftdata": ["swiftdata"],
+  "combine": ["combine"],
+  "realitykit": ["realitykit"],
+  "arkit": ["arkit"],
+  "coredata": ["coredata"],
+  "coreml": ["coreml"],
+  "mapkit": ["mapkit"],
+  "cloudkit": ["cloudkit"],
+  "healthkit": ["healthkit"],
+  "storekit": ["storekit"],
+  "avfoundation": ["avfoundation"],
+  "swift": ["swift", "observation"]
+};
+
+/**
+ * Fetch live documentation from Apple's JSON API, through the disk cache
+ */
+export async function fetchLiveDoc(docPath: string, signal?: AbortSignal): Promise<AppleDocJSON | null> {
+  const url = `${APPLE_DOCS_API}/${docPath}.json`;
+  return fetchJSONWithCache<AppleDocJSON>(url, docPath, signal);
+}
+
+/**
+ * Fetch a tutorial or tutorial overview from Apple's JSON API, through the disk cache
+ */
+export async function fetchTutorialDoc(tutorialPath: string, signal?: AbortSignal): Promise<AppleDocJSON | null> {
+  const url = `${APPLE_TUTORIALS_API}/${tutorialPath}.json`;
+  return fetchJSONWithCache<AppleDocJSON>(url, `tutorials/${tutorialPath}`, signal);
+}
+
+/**
+ * Fetch a design page, such as a Human Interface Guidelines topic, through the disk cache
+ */
+export async function fetchDesignDoc(designPath: string, signal?: AbortSignal): Promise<AppleDocJSON | null> {
+  const url = `${APPLE_DESIGN_API}/${designPath}.json`;
+  return fetchJSONWithCache<AppleDocJSON>(url, `design/${designPath}`, signal);
+}
+
+/**
+ * Fetch the API change markers for a documentation page and one of its diffAvailability keys
+ */
+export async function fetchApiChanges(
+  docPath: string,
+  changes: string,
+  signal?: AbortSignal
+): Promise<Record<string, APIChange> | null> {
+  const url = `${APPLE_DIFFS_API}/${docPath}.json?changes=latest_${changes}`;
+  return fetchJSONWithCache<Record<string, APIChange>>(url, `diffs/${docPath}?changes=${changes}`, signal);
+}
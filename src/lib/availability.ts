@@ -0,0 +1,183 @@
+/**
+ * Platform Availability
+ *
+ * Parses DocC platform metadata into availability ranges with
+ * deprecation, beta and unavailability details.
+ */
+
+import { renderBlocks } from "./docc-renderer.js";
+import { AppleDocJSON } from "./docc-types.js";
+
+export interface PlatformAvailability {
+  platform: string;
+  introducedAt?: string;
+  deprecatedAt?: string;
+  obsoletedAt?: string;
+  deprecated: boolean;
+  beta: boolean;
+  unavailable: boolean;
+  message?: string;
+  renamed?: string;
+}
+
+// Alternative spellings accepted for the platform filter
+const PLATFORM_ALIASES: Record<string, string> = {
+  "mac": "macos",
+  "osx": "macos",
+  "catalyst": "maccatalyst",
+  "ipad": "ipados",
+  "iphone": "ios",
+  "watch": "watchos",
+  "tv": "tvos",
+  "appletv": "tvos",
+  "vision": "visionos",
+  "visionpro": "visionos",
+  "xros": "visionos"
+};
+
+// Platform names as Swift spells them in @available and #available; iPadOS apps are iOS apps
+const SWIFT_PLATFORM_NAMES: Record<string, string> = {
+  "ios": "iOS",
+  "ipados": "iOS",
+  "maccatalyst": "macCatalyst",
+  "macos": "macOS",
+  "tvos": "tvOS",
+  "watchos": "watchOS",
+  "visionos": "visionOS"
+};
+
+/**
+ * Parse platform availability from a documentation page, optionally limited to one platform
+ */
+export function getPlatformAvailability(doc: AppleDocJSON, platform?: string): PlatformAvailability[] {
+  const availability = (doc.metadata?.platforms ?? []).map(p => ({
+    platform: p.name,
+    introducedAt: p.introducedAt,
+    deprecatedAt: p.deprecatedAt,
+    obsoletedAt: p.obsoletedAt,
+    deprecated: Boolean(p.deprecated || p.deprecatedAt),
+    beta: Boolean(p.beta),
+    unavailable: Boolean(p.unavailable || p.obsoletedAt),
+    message: p.message || undefined,
+    renamed: p.renamed || undefined
+  }));
+
+  return platform ? availability.filter(a => matchesPlatform(a.platform, platform)) : availability;
+}
+
+/**
+ * Whether a DocC platform name matches a user-supplied platform
+ */
+export function matchesPlatform(name: string, platform: string): boolean {
+  return normalizePlatform(name) === normalizePlatform(platform);
+}
+
+/**
+ * Format a platform's availability as a range, e.g. "iOS 13.0–17.0 (deprecated)"
+ */
+export function formatAvailabilityRange(availability: PlatformAvailability): string {
+  const { platform, introducedAt, deprecatedAt, obsoletedAt } = availability;
+
+  if (availability.unavailable && !introducedAt) {
+    return `${platform} (unavailable)`;
+  }
+
+  let range = introducedAt ? `${platform} ${introducedAt}` : platform;
+  const end = obsoletedAt ?? deprecatedAt;
+  if (end) {
+    range += `–${end}`;
+  } else if (introducedAt) {
+    range += "+";
+  }
+
+  const flags: string[] = [];
+  if (availability.unavailable) flags.push("unavailable");
+  else if (availability.deprecated) flags.push("deprecated");
+  if (availability.beta) flags.push("beta");
+
+  return flags.length > 0 ? `${range} (${flags.join(", ")})` : range;
+}
+
+/**
+ * Format deprecation, beta and unavailability warnings as Markdown callouts
+ */
+export function formatAvailabilityNotices(
+  availability: PlatformAvailability[],
+  doc: AppleDocJSON,
+  platform?: string
+): string {
+  let output = "";
+
+  if (platform && availability.length === 0) {
+    output += `> 🚫 **Not available on ${platform}.** This API has no availability information for that platform.\n\n`;
+  }
+
+  const deprecated = availability.filter(a => a.deprecated && !a.unavailable);
+  if (deprecated.length > 0) {
+    const versions = deprecated.map(a => a.deprecatedAt ? `${a.platform} ${a.deprecatedAt}` : a.platform);
+    const renamed = deprecated.find(a => a.renamed)?.renamed;
+    const message = deprecated.find(a => a.message)?.message;
+
+    output += `> ⚠️ **Deprecated** in ${versions.join(", ")}.`;
+    if (renamed) {
+      output += ` Use \`${renamed}\` instead.`;
+    }
+    if (message) {
+      output += ` ${message}`;
+    }
+    output += `\n\n`;
+
+    if (doc.deprecationSummary && doc.deprecationSummary.length > 0) {
+      const summary = renderBlocks(doc.deprecationSummary, doc).trim();
+      output += summary.split("\n").map(line => line ? `> ${line}` : ">").join("\n") + `\n\n`;
+    }
+  }
+
+  const unavailable = availability.filter(a => a.unavailable);
+  if (unavailable.length > 0) {
+    const platforms = unavailable.map(a => a.obsoletedAt ? `${a.platform} ${a.obsoletedAt} and later` : a.platform);
+    output += `> 🚫 **Unavailable** on ${platforms.join(", ")}.`;
+    const message = unavailable.find(a => a.message)?.message;
+    if (message) {
+      output += ` ${message}`;
+    }
+    output += `\n\n`;
+  }
+
+  const beta = availability.filter(a => a.beta);
+  if (beta.length > 0) {
+    output += `> 🧪 **Beta** on ${beta.map(a => a.platform).join(", ")}. This API may change before the final release.\n\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Compare dotted version strings numerically ("13.4" < "13.10")
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = a.split(".").map(n => parseInt(n, 10) || 0);
+  const right = b.split(".").map(n => parseInt(n, 10) || 0);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] ?? 0) - (right[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * The Swift platform name for a DocC or user-written one ("Mac Catalyst" -> "macCatalyst")
+ *
+ * Returns undefined for platforms Swift has no availability name for.
+ */
+export function getSwiftPlatformName(name: string): string | undefined {
+  return SWIFT_PLATFORM_NAMES[normalizePlatform(name)];
+}
+
+/**
+ * Normalize a platform name for comparison ("Mac Catalyst" -> "maccatalyst")
+ */
+function normalizePlatform(name: string): string {
+  const compact = name.toLowerCase().replace(/[^a-z]/g, "");
+  return PLATFORM_ALIASES[compact] ?? compact;
+}
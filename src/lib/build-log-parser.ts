@@ -0,0 +1,168 @@
+/**
+ * Build Log Parser
+ *
+ * Splits clang, swiftc and ld output into located diagnostics, with their
+ * notes and source excerpts attached and repeats (one per architecture,
+ * or Xcode's end-of-build summary) merged.
+ */
+
+export type DiagnosticSeverity = "error" | "warning" | "note";
+
+export interface DiagnosticLocation {
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface DiagnosticNote extends DiagnosticLocation {
+  message: string;
+}
+
+export interface ParsedDiagnostic extends DiagnosticLocation {
+  severity: DiagnosticSeverity;
+  message: string;
+  notes: DiagnosticNote[];
+  excerpt: string[];
+  occurrences: number;
+  testCase?: string;
+}
+
+// "/path/File.swift:12:5: error: cannot find 'x' in scope"
+const LOCATED = /^(.+?):(\d+):(?:(\d+):)?\s*(fatal error|error|warning|note):\s*(.*)$/;
+
+// "error: ...", "clang: error: linker command failed", "ld: warning: ..."
+const UNLOCATED = /^(?:[A-Za-z][\w.+-]*:\s+)?(fatal error|error|warning|note):\s*(.*)$/;
+
+// ld lists the missing symbols on the indented lines that follow
+const UNDEFINED_SYMBOLS = /^Undefined symbols? for architecture \S+:?$/;
+
+// Source excerpts: swiftc's framed style ("12 |     x()"), and a source line over a caret line
+const EXCERPT_FRAME = /^\s*\d*\s*\|/;
+const CARET_LINE = /^[\s~^]*\^[\s~^]*$/;
+
+// Colour codes from xcodebuild and swiftc run in a terminal
+const ANSI_ESCAPE = /\x1b\[[0-9;]*m/g;
+
+// Longest excerpt kept per diagnostic
+const MAX_EXCERPT_LINES = 12;
+
+/**
+ * Every diagnostic in a build log, in order of first appearance
+ */
+export function parseDiagnostics(log: string): ParsedDiagnostic[] {
+  const lines = log.replace(ANSI_ESCAPE, "").split(/\r?\n/);
+  const parsed: ParsedDiagnostic[] = [];
+
+  // The diagnostic notes attach to, and where excerpt lines go (a note's are dropped)
+  let parent: ParsedDiagnostic | null = null;
+  let excerpt: string[] | null = null;
+  let indentedExcerpt = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const header = parseHeader(line);
+
+    if (header) {
+      if (header.severity === "note" && parent) {
+        const { severity: _, ...note } = header;
+        parent.notes.push(note);
+        excerpt = [];
+      } else {
+        parent = { ...header, notes: [], excerpt: [], occurrences: 1 };
+        parsed.push(parent);
+        excerpt = parent.excerpt;
+      }
+      indentedExcerpt = UNDEFINED_SYMBOLS.test(header.message);
+      continue;
+    }
+
+    if (excerpt && (isExcerptLine(lines, i) || (indentedExcerpt && /^\s+\S/.test(line)))) {
+      if (excerpt.length < MAX_EXCERPT_LINES) excerpt.push(line);
+      continue;
+    }
+
+    // Blank lines separate a diagnostic from its notes; anything else ends it
+    excerpt = null;
+    if (line.trim() !== "") {
+      parent = null;
+    }
+  }
+
+  return mergeDiagnostics(parsed);
+}
+
+/**
+ * Read a diagnostic line, located or not
+ */
+function parseHeader(line: string): (DiagnosticLocation & { severity: DiagnosticSeverity; message: string }) | null {
+  if (UNDEFINED_SYMBOLS.test(line.trim())) {
+    return { severity: "error", message: line.trim().replace(/:$/, "") };
+  }
+
+  const located = line.match(LOCATED);
+  if (located) {
+    const file = located[1].trim();
+    const lineNumber = Number(located[2]);
+    // swiftc reports "<unknown>:0:" for diagnostics without a source location
+    const known = file !== "<unknown>" && lineNumber > 0;
+    return {
+      severity: toSeverity(located[4]),
+      message: located[5].trim(),
+      ...(known ? { file, line: lineNumber, ...(located[3] ? { column: Number(located[3]) } : {}) } : {})
+    };
+  }
+
+  const unlocated = line.trimStart().match(UNLOCATED);
+  if (unlocated) {
+    return { severity: toSeverity(unlocated[1]), message: unlocated[2].trim() };
+  }
+
+  return null;
+}
+
+/**
+ * Whether a line belongs to the source excerpt under a diagnostic
+ */
+function isExcerptLine(lines: string[], index: number): boolean {
+  const line = lines[index];
+  if (EXCERPT_FRAME.test(line) || CARET_LINE.test(line)) {
+    return true;
+  }
+  // The source line printed above a caret line
+  return line.trim() !== "" && index + 1 < lines.length && CARET_LINE.test(lines[index + 1]);
+}
+
+/**
+ * Map "fatal error" and friends onto a severity
+ */
+function toSeverity(label: string): DiagnosticSeverity {
+  return label === "warning" ? "warning" : label === "note" ? "note" : "error";
+}
+
+/**
+ * Merge diagnostics repeated for each architecture or in Xcode's summary, counting occurrences
+ */
+export function mergeDiagnostics(diagnostics: ParsedDiagnostic[]): ParsedDiagnostic[] {
+  const merged = new Map<string, ParsedDiagnostic>();
+
+  for (const diagnostic of diagnostics) {
+    const message = diagnostic.message.replace(/\bfor architecture \S+/g, "for architecture");
+    const key = [diagnostic.severity, diagnostic.testCase, diagnostic.file, diagnostic.line, diagnostic.column, message].join("\u0000");
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, diagnostic);
+      continue;
+    }
+
+    existing.occurrences++;
+    const seen = new Set(existing.notes.map(n => `${n.file}:${n.line}:${n.column}:${n.message}`));
+    for (const note of diagnostic.notes) {
+      if (!seen.has(`${note.file}:${note.line}:${note.column}:${note.message}`)) existing.notes.push(note);
+    }
+    if (existing.excerpt.length === 0) {
+      existing.excerpt.push(...diagnostic.excerpt);
+    }
+  }
+
+  return [...merged.values()];
+}
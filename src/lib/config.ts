@@ -0,0 +1,107 @@
+/**
+ * Server Configuration
+ * 
+ * Settings read from environment variables so they can be set
+ * in the MCP client configuration (e.g. claude_desktop_config.json).
+ */
+
+import os from "node:os";
+import path from "node:path";
+
+/**
+ * Directory used for on-disk caches (symbol indexes, documentation)
+ */
+export const CACHE_DIR = process.env.APPLE_DEV_MCP_CACHE_DIR
+  || path.join(os.homedir(), ".cache", "apple-dev-mcp");
+
+/**
+ * Base URL for Apple's documentation JSON; point it at a local mirror if needed
+ */
+export const APPLE_DEVELOPER_BASE_URL = (process.env.APPLE_DEV_MCP_BASE_URL || "https://developer.apple.com")
+  .replace(/\/+$/, "");
+
+/**
+ * Per-request timeout for documentation fetches
+ */
+export const REQUEST_TIMEOUT_MS = readNumber(process.env.APPLE_DEV_MCP_REQUEST_TIMEOUT_MS, 10000);
+
+/**
+ * Maximum number of documentation requests in flight at once
+ */
+export const MAX_CONCURRENT_REQUESTS = Math.max(1, readNumber(process.env.APPLE_DEV_MCP_MAX_CONCURRENT_REQUESTS, 6));
+
+/**
+ * Retries for rate-limited (429) and server error (5xx) responses
+ */
+export const MAX_RETRIES = readNumber(process.env.APPLE_DEV_MCP_MAX_RETRIES, 3);
+
+/**
+ * Serve documentation only from the cache, never touching the network
+ */
+export const OFFLINE = isTruthy(process.env.APPLE_DEV_MCP_OFFLINE);
+
+/**
+ * How long cached documentation is used before it is revalidated
+ */
+export const DOC_CACHE_TTL_MS = readNumber(process.env.APPLE_DEV_MCP_CACHE_TTL_HOURS, 24) * 60 * 60 * 1000;
+
+/**
+ * How long a 404 is remembered before the path is tried again
+ */
+export const NEGATIVE_CACHE_TTL_MS = readNumber(process.env.APPLE_DEV_MCP_NEGATIVE_CACHE_TTL_HOURS, 24 * 7) * 60 * 60 * 1000;
+
+/**
+ * Swift Evolution proposals metadata feed
+ */
+export const EVOLUTION_FEED_URL = process.env.APPLE_DEV_MCP_EVOLUTION_FEED_URL
+  || "https://download.swift.org/swift-evolution/v1/evolution.json";
+
+/**
+ * How often the Swift Evolution feed is refreshed
+ */
+export const EVOLUTION_REFRESH_MS = readNumber(process.env.APPLE_DEV_MCP_EVOLUTION_REFRESH_HOURS, 24) * 60 * 60 * 1000;
+
+/**
+ * Local clone of swiftlang/swift-evolution, read instead of the feed when set
+ */
+export const EVOLUTION_REPO = process.env.APPLE_DEV_MCP_EVOLUTION_REPO
+  ? expandHome(process.env.APPLE_DEV_MCP_EVOLUTION_REPO.trim())
+  : undefined;
+
+/**
+ * Local .doccarchive directories searched alongside Apple's documentation
+ */
+export const DOCC_ARCHIVES = readPathList(process.env.APPLE_DEV_MCP_DOCC_ARCHIVES);
+
+/**
+ * Parse a boolean-ish environment value
+ */
+function isTruthy(value: string | undefined): boolean {
+  return value !== undefined && ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
+/**
+ * Parse a numeric environment value, falling back to a default
+ */
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value !== "" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Split a path list on the platform delimiter (":" on macOS/Linux)
+ */
+function readPathList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(path.delimiter)
+    .map(p => p.trim())
+    .filter(p => p.length > 0)
+    .map(expandHome);
+}
+
+/**
+ * Expand a leading "~" to the home directory
+ */
+function expandHome(value: string): string {
+  return value.startsWith("~") ? path.join(os.homedir(), value.slice(1)) : value;
+}
@@ -0,0 +1,135 @@
+/**
+ * Documentation Disk Cache
+ *
+ * Caches Apple documentation JSON on disk, revalidating with
+ * ETag/Last-Modified and remembering 404s so dead paths aren't retried.
+ */
+
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { CACHE_DIR, DOC_CACHE_TTL_MS, NEGATIVE_CACHE_TTL_MS, OFFLINE } from "./config.js";
+import { fetchWithRetry } from "./http.js";
+
+interface CacheEntry {
+  key: string;
+  url: string;
+  status: number;
+  fetchedAt: number;
+  etag?: string;
+  lastModified?: string;
+  body?: unknown;
+}
+
+// Headers sent with every request to developer.apple.com
+export const REQUEST_HEADERS: Record<string, string> = {
+  "Accept": "application/json",
+  "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)"
+};
+
+/**
+ * Fetch JSON through the disk cache
+ *
+ * Returns null for missing documents, or when the network is unavailable
+ * and nothing is cached. Aborting the signal cancels the request.
+ */
+export async function fetchJSONWithCache<T>(
+  url: string,
+  key: string,
+  signal?: AbortSignal,
+  ttlMs: number = DOC_CACHE_TTL_MS
+): Promise<T | null> {
+  const cacheFile = getCacheFile(key);
+  const entry = await readEntry(cacheFile);
+
+  if (entry && isFresh(entry, ttlMs)) {
+    return entry.status === 200 ? entry.body as T : null;
+  }
+
+  if (OFFLINE) {
+    return entry?.status === 200 ? entry.body as T : null;
+  }
+
+  const headers: Record<string, string> = { ...REQUEST_HEADERS };
+  if (entry?.status === 200) {
+    if (entry.etag) {
+      headers["If-None-Match"] = entry.etag;
+    }
+    if (entry.lastModified) {
+      headers["If-Modified-Since"] = entry.lastModified;
+    }
+  }
+
+  try {
+    const response = await fetchWithRetry(url, { headers }, r => r.json() as Promise<unknown>, signal);
+
+    if (response.status === 304 && entry) {
+      await writeEntry(cacheFile, { ...entry, fetchedAt: Date.now() });
+      return entry.body as T;
+    }
+
+    if (response.status === 404 || response.status === 410) {
+      await writeEntry(cacheFile, { key, url, status: 404, fetchedAt: Date.now() });
+      return null;
+    }
+
+    if (!response.ok) {
+      // Transient failure: a stale copy beats nothing
+      return entry?.status === 200 ? entry.body as T : null;
+    }
+
+    const body = response.body;
+    await writeEntry(cacheFile, {
+      key,
+      url,
+      status: 200,
+      fetchedAt: Date.now(),
+      etag: response.headers.get("etag") ?? undefined,
+      lastModified: response.headers.get("last-modified") ?? undefined,
+      body
+    });
+    return body as T;
+  } catch {
+    return entry?.status === 200 ? entry.body as T : null;
+  }
+}
+
+/**
+ * Whether a cache entry is still within its TTL
+ */
+function isFresh(entry: CacheEntry, ttlMs: number): boolean {
+  const ttl = entry.status === 200 ? ttlMs : NEGATIVE_CACHE_TTL_MS;
+  return Date.now() - entry.fetchedAt < ttl;
+}
+
+/**
+ * Cache file for a key, hashed so any doc path is a valid file name
+ */
+function getCacheFile(key: string): string {
+  const hash = createHash("sha1").update(key).digest("hex");
+  return path.join(CACHE_DIR, "docs", `${hash}.json`);
+}
+
+/**
+ * Read a cache entry from disk
+ */
+async function readEntry(file: string): Promise<CacheEntry | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as CacheEntry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write a cache entry to disk, ignoring failures
+ */
+async function writeEntry(file: string, entry: CacheEntry): Promise<void> {
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(entry));
+  } catch {
+    // Caching is best-effort
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Local DocC Archives
+ *
+ * Indexes the render nodes in local .doccarchive bundles so they can be
+ * searched and rendered alongside Apple's documentation.
+ */
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { DOCC_ARCHIVES } from "./config.js";
+import { AppleDocJSON } from "./docc-types.js";
+import { isGuideEntry, SymbolIndexEntry } from "./symbol-index.js";
+import { walkFiles } from "./walk-files.js";
+
+interface ArchiveNode {
+  entry: SymbolIndexEntry;
+  file: string;
+  isSymbol: boolean;
+}
+
+// Render node roles that aren't symbols and never appear in qualified names
+const NON_SYMBOL_ROLES = new Set(["collection", "collectionGroup", "article", "overview", "sampleCode", "tutorial", "project"]);
+
+let archiveIndex: Promise<Map<string, ArchiveNode>> | null = null;
+
+/**
+ * Load the symbol entries of every configured archive
+ *
+ * Like Apple's navigator index, module and collection pages are left out
+ * so a framework name doesn't outrank a real symbol.
+ */
+export async function loadArchiveEntries(): Promise<SymbolIndexEntry[]> {
+  const nodes = await loadArchiveIndex();
+  return [...nodes.values()]
+    .filter(n => (n.isSymbol && n.entry.kind !== "module") || isGuideEntry(n.entry))
+    .map(n => n.entry);
+}
+
+/**
+ * Read the render node for an archive entry
+ */
+export async function readArchiveDoc(entry: SymbolIndexEntry): Promise<AppleDocJSON | null> {
+  const node = (await loadArchiveIndex()).get(archiveKey(entry));
+  if (!node) {
+    return null;
+  }
+
+  const doc = await readRenderNode(node.file);
+  if (!doc) {
+    return null;
+  }
+
+  // Links within the archive don't exist on developer.apple.com; keep titles, drop URLs
+  for (const reference of Object.values(doc.references ?? {})) {
+    if (reference.identifier && !reference.identifier.startsWith("doc://com.apple.")) {
+      delete reference.url;
+    }
+  }
+  return doc;
+}
+
+/**
+ * Build the archive index once per process
+ */
+function loadArchiveIndex(): Promise<Map<string, ArchiveNode>> {
+  if (!archiveIndex) {
+    archiveIndex = buildArchiveIndex(DOCC_ARCHIVES);
+  }
+  return archiveIndex;
+}
+
+/**
+ * Walk each archive's data/documentation directory and index its render nodes
+ */
+async function buildArchiveIndex(archives: string[]): Promise<Map<string, ArchiveNode>> {
+  const nodes = new Map<string, ArchiveNode>();
+
+  for (const archive of archives) {
+    const source = path.basename(archive);
+    const root = path.join(archive, "data", "documentation");
+    const byPath = new Map<string, ArchiveNode>();
+
+    for (const file of await walkFiles(root, { extension: ".json" })) {
+      const doc = await readRenderNode(file);
+      const title = doc?.metadata?.title;
+      if (!doc || !title) continue;
+
+      const docPath = path.relative(root, file).replace(/\.json$/, "").split(path.sep).join("/").toLowerCase();
+      const role = doc.metadata?.role ?? "symbol";
+      byPath.set(docPath, {
+        file,
+        isSymbol: !NON_SYMBOL_ROLES.has(role),
+        entry: {
+          title,
+          qualifiedName: title,
+          path: docPath,
+          kind: doc.metadata?.symbolKind ?? role,
+          framework: doc.metadata?.modules?.[0]?.name ?? source,
+          source
+        }
+      });
+    }
+
+    // Qualified names come from the symbol pages above each path
+    for (const [docPath, node] of byPath) {
+      const segments = docPath.split("/");
+      const owners: string[] = [];
+      for (let i = 2; i < segments.length; i++) {
+        const owner = byPath.get(segments.slice(0, i).join("/"));
+        if (owner?.isSymbol && owner.entry.kind !== "module") {
+          owners.push(owner.entry.title);
+        }
+      }
+      node.entry.qualifiedName = [...owners, node.entry.title].join(".");
+      nodes.set(archiveKey(node.entry), node);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Key an entry by archive and path, since two archives may share paths
+ */
+function archiveKey(entry: SymbolIndexEntry): string {
+  return `${entry.source}:${entry.path}`;
+}
+
+/**
+ * Read and parse a render node file
+ */
+async function readRenderNode(file: string): Promise<AppleDocJSON | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as AppleDocJSON;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,556 @@
+/**
+ * DocC Render Node Renderer
+ *
+ * Converts Apple's DocC render JSON into Markdown: declarations,
+ * parameters, discussion content, topics, relationships, see also
+ * and tutorial steps.
+ */
+
+import {
+  AppleDocJSON,
+  BlockContent,
+  ContentSection,
+  DocReference,
+  InlineContent,
+  TopicSection,
+  TutorialSection,
+  TutorialStep,
+} from "./docc-types.js";
+import { getCodeSyntax } from "./docc-variants.js";
+
+/**
+ * Render every primary content section in document order
+ */
+export function renderPrimaryContentSections(doc: AppleDocJSON): string {
+  let output = "";
+
+  for (const section of doc.primaryContentSections ?? []) {
+    output += renderContentSection(section, doc);
+  }
+
+  return output;
+}
+
+/**
+ * Render a single primary content section
+ */
+export function renderContentSection(section: ContentSection, doc: AppleDocJSON): string {
+  let output = "";
+
+  switch (section.kind) {
+    case "declarations": {
+      // Platform-specific declarations are often identical
+      const declarations = new Map<string, string>();
+      for (const declaration of section.declarations ?? []) {
+        declarations.set(declaration.tokens.map(t => t.text).join(""), getCodeSyntax(declaration.languages?.[0]));
+      }
+      if (declarations.size > 0) {
+        output += `## Declaration\n\n`;
+        for (const [text, syntax] of declarations) {
+          output += "```" + syntax + "\n" + text + "\n```\n\n";
+        }
+      }
+      break;
+    }
+
+    case "parameters": {
+      if (section.parameters && section.parameters.length > 0) {
+        output += `## Parameters\n\n`;
+        for (const parameter of section.parameters) {
+          const description = renderBlocks(parameter.content, doc).trim();
+          output += `- \`${parameter.name}\`: ${indent(description, 2).trimStart()}\n`;
+        }
+        output += `\n`;
+      }
+      break;
+    }
+
+    case "mentions": {
+      if (section.mentions && section.mentions.length > 0) {
+        output += `## Mentioned In\n\n`;
+        for (const identifier of section.mentions) {
+          output += renderReferenceListItem(identifier, doc);
+        }
+        output += `\n`;
+      }
+      break;
+    }
+
+    default: {
+      // "content", "returns" and other block-based sections
+      if (section.title) {
+        output += `## ${section.title}\n\n`;
+      }
+      if (section.content) {
+        output += renderBlocks(section.content, doc);
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * The first declaration of a page as plain text
+ */
+export function getDeclarationText(doc: AppleDocJSON): string | undefined {
+  const section = doc.primaryContentSections?.find(s => s.kind === "declarations");
+  return section?.declarations?.[0]?.tokens.map(t => t.text).join("");
+}
+
+/**
+ * Render topic sections as grouped lists of child symbols
+ */
+export function renderTopicSections(doc: AppleDocJSON): string {
+  return renderGroupedSections("Topics", doc.topicSections, doc);
+}
+
+/**
+ * Render relationship sections (conforms to, inherits from, conforming types)
+ */
+export function renderRelationshipsSections(doc: AppleDocJSON): string {
+  const sections = doc.relationshipsSections?.map(s => ({ title: s.title, identifiers: s.identifiers }));
+  return renderGroupedSections("Relationships", sections, doc);
+}
+
+/**
+ * Render see also sections
+ */
+export function renderSeeAlsoSections(doc: AppleDocJSON): string {
+  return renderGroupedSections("See Also", doc.seeAlsoSections, doc);
+}
+
+/**
+ * Render tutorial sections: introduction, chapters, steps with their code files and assessments
+ */
+export function renderTutorialSections(doc: AppleDocJSON, includeCode: boolean = true): string {
+  let output = "";
+
+  for (const section of doc.sections ?? []) {
+    output += renderTutorialSection(section, doc, includeCode);
+  }
+
+  return output;
+}
+
+/**
+ * Download URL of a sample code project, or of a tutorial's project files
+ */
+export function getProjectDownloadURL(doc: AppleDocJSON): string | undefined {
+  const identifier = doc.sampleCodeDownload?.action.identifier
+    ?? doc.sections?.find(s => s.projectFiles)?.projectFiles;
+  const url = identifier ? doc.references?.[identifier]?.url : undefined;
+  return url ? getDocumentationURL(url) : undefined;
+}
+
+/**
+ * Render a list of block content items to Markdown
+ */
+export function renderBlocks(blocks: BlockContent[], doc: AppleDocJSON): string {
+  let output = "";
+
+  for (const block of blocks) {
+    output += renderBlock(block, doc);
+  }
+
+  return output;
+}
+
+/**
+ * Render inline content to Markdown text
+ */
+export function renderInline(content: InlineContent[] | undefined, doc: AppleDocJSON): string {
+  return (content ?? []).map(item => renderInlineItem(item, doc)).join("");
+}
+
+/**
+ * Render a single block content item
+ */
+function renderBlock(block: BlockContent, doc: AppleDocJSON): string {
+  switch (block.type) {
+    case "heading": {
+      const level = block.level || 2;
+      return `${"#".repeat(level)} ${block.text}\n\n`;
+    }
+
+    case "paragraph":
+      return `${renderInline(block.inlineContent, doc)}\n\n`;
+
+    case "codeListing": {
+      let output = "```" + (block.syntax || "swift") + "\n";
+      output += (block.code || []).join("\n");
+      output += "\n```\n\n";
+      return output;
+    }
+
+    case "aside": {
+      const label = block.name || capitalize(block.style || "note");
+      const body = renderBlocks(block.content ?? [], doc).trim();
+      return `${quote(`**${label}:** ${body}`)}\n\n`;
+    }
+
+    case "unorderedList": {
+      let output = "";
+      for (const item of block.items ?? []) {
+        const body = renderBlocks(item.content ?? [], doc).trim();
+        output += `- ${indent(body, 2).trimStart()}\n`;
+      }
+      return `${output}\n`;
+    }
+
+    case "orderedList": {
+      let output = "";
+      let number = block.start ?? 1;
+      for (const item of block.items ?? []) {
+        const marker = `${number++}. `;
+        const body = renderBlocks(item.content ?? [], doc).trim();
+        output += `${marker}${indent(body, marker.length).trimStart()}\n`;
+      }
+      return `${output}\n`;
+    }
+
+    case "termList": {
+      let output = "";
+      for (const item of block.items ?? []) {
+        const term = renderInline(item.term?.inlineContent, doc);
+        const definition = renderBlocks(item.definition?.content ?? [], doc).trim();
+        output += `- **${term}**: ${indent(definition, 2).trimStart()}\n`;
+      }
+      return `${output}\n`;
+    }
+
+    case "table":
+      return renderTable(block, doc);
+
+    case "row": {
+      // Columns are laid out side by side on the web; stack them in Markdown
+      return (block.columns ?? []).map(c => renderBlocks(c.content, doc)).join("");
+    }
+
+    case "tabNavigator": {
+      let output = "";
+      for (const tab of block.tabs ?? []) {
+        output += `**${tab.title}**\n\n`;
+        output += renderBlocks(tab.content, doc);
+      }
+      return output;
+    }
+
+    case "small":
+      return `<small>${renderInline(block.inlineContent, doc)}</small>\n\n`;
+
+    case "thematicBreak":
+      return `---\n\n`;
+
+    default:
+      return block.inlineContent ? `${renderInline(block.inlineContent, doc)}\n\n` : "";
+  }
+}
+
+/**
+ * Render a single inline content item
+ */
+function renderInlineItem(item: InlineContent, doc: AppleDocJSON): string {
+  switch (item.type) {
+    case "text":
+      return item.text ?? "";
+    case "codeVoice":
+      return `\`${item.code ?? ""}\``;
+    case "emphasis":
+      return `*${renderInline(item.inlineContent, doc)}*`;
+    case "strong":
+    case "inlineHead":
+      return `**${renderInline(item.inlineContent, doc)}**`;
+    case "newTerm":
+      return `*${renderInline(item.inlineContent, doc)}*`;
+    case "strikethrough":
+      return `~~${renderInline(item.inlineContent, doc)}~~`;
+    case "subscript":
+      return `<sub>${renderInline(item.inlineContent, doc)}</sub>`;
+    case "superscript":
+      return `<sup>${renderInline(item.inlineContent, doc)}</sup>`;
+    case "link":
+      return `[${item.title || item.destination || ""}](${item.destination ?? ""})`;
+    case "image":
+      return renderImage(item.identifier, doc);
+    case "reference": {
+      const title = item.overridingTitleInlineContent
+        ? renderInline(item.overridingTitleInlineContent, doc)
+        : item.overridingTitle;
+      return renderReferenceLink(item.identifier ?? "", doc, title, item.isActive !== false);
+    }
+    default:
+      return item.text ?? renderInline(item.inlineContent, doc);
+  }
+}
+
+/**
+ * Render an image reference with its alt text
+ */
+function renderImage(identifier: string | undefined, doc: AppleDocJSON): string {
+  const reference: DocReference | undefined = identifier ? doc.references?.[identifier] : undefined;
+  if (!reference) {
+    return "";
+  }
+
+  const variant = reference.variants?.find(v => v.traits.includes("light")) ?? reference.variants?.[0];
+  const alt = reference.alt || identifier || "";
+  return variant ? `![${alt}](${variant.url})` : alt;
+}
+
+/**
+ * Absolute developer.apple.com URL for a reference or page URL
+ */
+export function getDocumentationURL(url: string): string {
+  if (/^https?:\/\//.test(url)) {
+    return url;
+  }
+  // doc://com.apple.SwiftUI/documentation/SwiftUI/View -> /documentation/swiftui/view
+  const pagePath = url.startsWith("doc://")
+    ? url.replace(/^doc:\/\/[^/]+/, "").toLowerCase()
+    : url;
+  return `https://developer.apple.com${pagePath.startsWith("/") ? "" : "/"}${pagePath}`;
+}
+
+/**
+ * Render a reference to another documentation page as a link with its real title
+ */
+export function renderReferenceLink(
+  identifier: string,
+  doc: AppleDocJSON,
+  overridingTitle?: string,
+  isActive: boolean = true
+): string {
+  const reference = doc.references?.[identifier];
+  const rawTitle = overridingTitle || reference?.title || identifier.split("/").pop() || "";
+  // Symbol names read best as code; articles and external links as prose
+  const title = reference?.kind === "symbol" && !overridingTitle ? `\`${rawTitle}\`` : rawTitle;
+
+  if (!reference?.url || !isActive) {
+    return reference ? title : `**${rawTitle}**`;
+  }
+  return `[${title}](${getDocumentationURL(reference.url)})`;
+}
+
+/**
+ * Render a reference as a list item with its one-line abstract
+ */
+function renderReferenceListItem(identifier: string, doc: AppleDocJSON): string {
+  const abstract = renderInline(doc.references?.[identifier]?.abstract, doc).trim();
+  const link = renderReferenceLink(identifier, doc);
+  return abstract ? `- ${link} — ${abstract}\n` : `- ${link}\n`;
+}
+
+/**
+ * Render titled groups of identifiers under a top-level heading
+ */
+function renderGroupedSections(
+  heading: string,
+  sections: TopicSection[] | undefined,
+  doc: AppleDocJSON
+): string {
+  if (!sections || sections.length === 0) {
+    return "";
+  }
+
+  let output = `## ${heading}\n\n`;
+
+  for (const section of sections) {
+    if (section.title) {
+      output += `### ${section.title}\n\n`;
+    }
+    if (section.abstract) {
+      output += `${renderInline(section.abstract, doc)}\n\n`;
+    }
+    for (const identifier of section.identifiers) {
+      output += renderReferenceListItem(identifier, doc);
+    }
+    output += `\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Render a single tutorial section
+ */
+function renderTutorialSection(section: TutorialSection, doc: AppleDocJSON, includeCode: boolean): string {
+  let output = "";
+
+  switch (section.kind) {
+    case "hero": {
+      // The title is already the page heading
+      const xcode = section.xcodeRequirement ? doc.references?.[section.xcodeRequirement] : undefined;
+      if (section.chapter) {
+        output += `**Chapter:** ${section.chapter}\n`;
+      }
+      if (section.estimatedTimeInMinutes) {
+        output += `**Estimated Time:** ${section.estimatedTimeInMinutes} min\n`;
+      }
+      if (xcode?.title) {
+        output += `**Requires:** ${xcode.title}\n`;
+      }
+      if (output) {
+        output += `\n`;
+      }
+      output += renderBlocks(section.content ?? [], doc);
+      break;
+    }
+
+    case "volume": {
+      if (section.name) {
+        output += `## ${section.name}\n\n`;
+      }
+      output += renderBlocks(section.content ?? [], doc);
+      for (const chapter of section.chapters ?? []) {
+        output += `### ${chapter.name}\n\n`;
+        output += renderBlocks(chapter.content ?? [], doc);
+        for (const identifier of chapter.tutorials ?? []) {
+          output += renderReferenceListItem(identifier, doc);
+        }
+        output += `\n`;
+      }
+      break;
+    }
+
+    case "tasks": {
+      (section.tasks ?? []).forEach((task, index) => {
+        output += `## Section ${index + 1}: ${task.title}\n\n`;
+        for (const content of task.contentSection ?? []) {
+          output += renderBlocks(content.content ?? [], doc);
+        }
+        output += renderTutorialSteps(task.stepsSection ?? [], doc, includeCode);
+      });
+      break;
+    }
+
+    case "assessments": {
+      if (!section.assessments || section.assessments.length === 0) {
+        break;
+      }
+      output += `## Check Your Understanding\n\n`;
+      section.assessments.forEach((assessment, index) => {
+        output += `### Question ${index + 1}\n\n`;
+        output += renderBlocks([...(assessment.title ?? []), ...(assessment.content ?? [])], doc);
+        for (const choice of assessment.choices) {
+          const text = renderBlocks(choice.content, doc).trim();
+          output += `- ${choice.isCorrect ? "✅" : "⬜️"} ${indent(text, 2).trimStart()}\n`;
+        }
+        output += `\n`;
+      });
+      break;
+    }
+
+    case "callToAction": {
+      output += `## ${section.title || "Next"}\n\n`;
+      if (section.abstract) {
+        output += `${renderInline(section.abstract, doc)}\n\n`;
+      }
+      if (section.action) {
+        output += `${renderInline([section.action], doc)}\n\n`;
+      }
+      break;
+    }
+
+    case "resources": {
+      output += `## Resources\n\n`;
+      output += renderBlocks(section.content ?? [], doc);
+      for (const tile of section.tiles ?? []) {
+        output += `### ${tile.title}\n\n`;
+        output += renderBlocks(tile.content ?? [], doc);
+      }
+      break;
+    }
+
+    default: {
+      if (section.title) {
+        output += `## ${section.title}\n\n`;
+      }
+      output += renderBlocks(section.content ?? [], doc);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render numbered tutorial steps, each followed by the code file it produces
+ */
+function renderTutorialSteps(steps: TutorialStep[], doc: AppleDocJSON, includeCode: boolean): string {
+  let output = "";
+  let number = 1;
+
+  for (const step of steps) {
+    // Paragraphs and asides can sit between steps
+    if (step.type !== "step") {
+      output += renderBlocks([{ ...step, code: undefined }], doc);
+      continue;
+    }
+
+    const body = renderBlocks(step.content ?? [], doc).trim();
+    output += `**Step ${number++}.** ${body}\n\n`;
+
+    const caption = renderBlocks(step.caption ?? [], doc).trim();
+    if (caption) {
+      output += `${caption}\n\n`;
+    }
+
+    const file = includeCode && step.code ? doc.references?.[step.code] : undefined;
+    if (file?.content) {
+      if (file.fileName) {
+        output += `*${file.fileName}*\n\n`;
+      }
+      output += "```" + (file.syntax || "swift") + "\n";
+      output += file.content.join("\n");
+      output += "\n```\n\n";
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Render a table block as a Markdown table
+ */
+function renderTable(block: BlockContent, doc: AppleDocJSON): string {
+  const rows = (block.rows ?? []).map(row =>
+    row.map(cell => renderBlocks(cell, doc).trim().replace(/\n+/g, "<br>").replace(/\|/g, "\\|"))
+  );
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const columnCount = Math.max(...rows.map(r => r.length));
+  const pad = (row: string[]) => [...row, ...Array(columnCount - row.length).fill("")];
+  const hasHeaderRow = block.header === "row" || block.header === "both";
+  const header = hasHeaderRow ? pad(rows[0]) : Array(columnCount).fill(" ");
+  const body = hasHeaderRow ? rows.slice(1) : rows;
+
+  let output = `| ${header.join(" | ")} |\n`;
+  output += `|${Array(columnCount).fill("---").join("|")}|\n`;
+  for (const row of body) {
+    output += `| ${pad(row).join(" | ")} |\n`;
+  }
+  return `${output}\n`;
+}
+
+/**
+ * Prefix every line with a Markdown blockquote marker
+ */
+function quote(text: string): string {
+  return text.split("\n").map(line => line ? `> ${line}` : ">").join("\n");
+}
+
+/**
+ * Indent every line after the first
+ */
+function indent(text: string, spaces: number): string {
+  return text.split("\n").map(line => line ? " ".repeat(spaces) + line : line).join("\n");
+}
+
+/**
+ * Uppercase the first letter of a word
+ */
+export function capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
@@ -0,0 +1,209 @@
+/**
+ * DocC Render Node Types
+ *
+ * The subset of Apple's DocC render JSON schema used by the tools.
+ */
+
+export interface InlineContent {
+  type: string;
+  text?: string;
+  code?: string;
+  identifier?: string;
+  isActive?: boolean;
+  destination?: string;
+  title?: string;
+  overridingTitle?: string;
+  overridingTitleInlineContent?: InlineContent[];
+  inlineContent?: InlineContent[];
+}
+
+export interface BlockContent {
+  type: string;
+  level?: number;
+  text?: string;
+  anchor?: string;
+  inlineContent?: InlineContent[];
+  syntax?: string;
+  code?: string[];
+  style?: string;
+  name?: string;
+  content?: BlockContent[];
+  start?: number;
+  items?: Array<{
+    content?: BlockContent[];
+    term?: { inlineContent: InlineContent[] };
+    definition?: { content: BlockContent[] };
+  }>;
+  header?: "row" | "column" | "both" | "none";
+  rows?: BlockContent[][][];
+  columns?: Array<{ content: BlockContent[] }>;
+  tabs?: Array<{ title: string; content: BlockContent[] }>;
+  identifier?: string;
+  metadata?: { abstract?: InlineContent[] };
+}
+
+export interface DeclarationToken {
+  text: string;
+  kind: string;
+  identifier?: string;
+}
+
+export interface ContentSection {
+  kind: string;
+  title?: string;
+  content?: BlockContent[];
+  declarations?: Array<{
+    tokens: DeclarationToken[];
+    platforms?: string[];
+    languages?: string[];
+  }>;
+  parameters?: Array<{ name: string; content: BlockContent[] }>;
+  mentions?: string[];
+}
+
+export interface TopicSection {
+  title?: string;
+  identifiers: string[];
+  abstract?: InlineContent[];
+  anchor?: string;
+}
+
+export interface RelationshipSection {
+  type: string;
+  title: string;
+  identifiers: string[];
+}
+
+export interface DocReference {
+  type: string;
+  identifier?: string;
+  title?: string;
+  url?: string;
+  kind?: string;
+  role?: string;
+  abstract?: InlineContent[];
+  fragments?: Array<{ text: string; kind: string }>;
+  alt?: string;
+  variants?: Array<{ url: string; traits: string[] }>;
+  // Tutorial code files
+  fileName?: string;
+  fileType?: string;
+  syntax?: string;
+  content?: string[];
+}
+
+export interface TutorialStep extends Omit<BlockContent, "code"> {
+  caption?: BlockContent[];
+  code?: string;
+  media?: string;
+  runtimePreview?: string;
+}
+
+export interface TutorialTask {
+  title: string;
+  anchor?: string;
+  contentSection?: Array<{ kind: string; content?: BlockContent[] }>;
+  stepsSection?: TutorialStep[];
+}
+
+export interface TutorialSection {
+  kind: string;
+  title?: string;
+  name?: string;
+  chapter?: string;
+  estimatedTimeInMinutes?: number;
+  content?: BlockContent[];
+  abstract?: InlineContent[];
+  action?: InlineContent;
+  projectFiles?: string;
+  xcodeRequirement?: string;
+  tasks?: TutorialTask[];
+  chapters?: Array<{
+    name: string;
+    content?: BlockContent[];
+    tutorials?: string[];
+  }>;
+  assessments?: Array<{
+    title?: BlockContent[];
+    content?: BlockContent[];
+    choices: Array<{
+      content: BlockContent[];
+      isCorrect: boolean;
+      justification?: BlockContent[];
+    }>;
+  }>;
+  tiles?: Array<{
+    title: string;
+    identifier?: string;
+    content?: BlockContent[];
+  }>;
+}
+
+export interface PlatformMetadata {
+  name: string;
+  introducedAt?: string;
+  deprecatedAt?: string;
+  obsoletedAt?: string;
+  deprecated?: boolean;
+  beta?: boolean;
+  unavailable?: boolean;
+  message?: string;
+  renamed?: string;
+}
+
+export interface DiffAvailabilityInfo {
+  change: string;
+  platform: string;
+  versions: string[];
+}
+
+// API change markers for one page, keyed by reference identifier
+export interface APIChange {
+  change: "added" | "modified" | "deprecated" | string;
+}
+
+export interface VariantTrait {
+  interfaceLanguage?: string;
+}
+
+// A JSON Patch operation; paths are JSON Pointers into the render node
+export interface VariantPatchOperation {
+  op: "add" | "replace" | "remove" | string;
+  path: string;
+  value?: unknown;
+}
+
+export interface AppleDocJSON {
+  kind?: string;
+  identifier?: {
+    url: string;
+    interfaceLanguage?: string;
+  };
+  metadata?: {
+    title?: string;
+    role?: string;
+    roleHeading?: string;
+    symbolKind?: string;
+    platforms?: PlatformMetadata[];
+    modules?: Array<{ name: string }>;
+    fragments?: Array<{ text: string; kind: string }>;
+  };
+  abstract?: InlineContent[];
+  deprecationSummary?: BlockContent[];
+  primaryContentSections?: ContentSection[];
+  topicSections?: TopicSection[];
+  relationshipsSections?: RelationshipSection[];
+  seeAlsoSections?: TopicSection[];
+  sampleCodeDownload?: {
+    kind?: string;
+    action: InlineContent;
+  };
+  // Tutorial pages put their content in sections instead
+  sections?: TutorialSection[];
+  // Other language versions of the page, and the patches that produce them
+  variants?: Array<{ paths: string[]; traits: VariantTrait[] }>;
+  variantOverrides?: Array<{ traits: VariantTrait[]; patch: VariantPatchOperation[] }>;
+  // Release pairs the "API Changes" toggle can compare, keyed by "major", "minor", "beta" or "sdk"
+  diffAvailability?: Record<string, DiffAvailabilityInfo>;
+  references?: Record<string, DocReference>;
+}
@@ -0,0 +1,116 @@
+/**
+ * DocC Language Variants
+ *
+ * Applies a render node's variant overrides to produce its Objective-C
+ * version: title, declaration, abstract and reference titles.
+ */
+
+import { AppleDocJSON, VariantPatchOperation } from "./docc-types.js";
+
+export type DocLanguage = "swift" | "objc";
+
+// DocC's interface language identifiers
+const INTERFACE_LANGUAGES: Record<DocLanguage, string> = {
+  swift: "swift",
+  objc: "occ"
+};
+
+/**
+ * Parse a language argument; anything unrecognized means Swift
+ */
+export function parseDocLanguage(value: string | undefined): DocLanguage {
+  const normalized = value?.toLowerCase().replace(/[^a-z]/g, "");
+  return normalized === "objc" || normalized === "objectivec" || normalized === "occ" ? "objc" : "swift";
+}
+
+/**
+ * Code fence language for a DocLanguage or a DocC interface language ("occ")
+ */
+export function getCodeSyntax(language: string | undefined): string {
+  return language === "objc" || language === "occ" ? "objective-c" : "swift";
+}
+
+/**
+ * Whether the page has a version in the given language
+ */
+export function hasLanguageVariant(doc: AppleDocJSON, language: DocLanguage): boolean {
+  const interfaceLanguage = INTERFACE_LANGUAGES[language];
+  if (doc.identifier?.interfaceLanguage === interfaceLanguage) {
+    return true;
+  }
+  return (doc.variants ?? []).some(v => v.traits.some(t => t.interfaceLanguage === interfaceLanguage));
+}
+
+/**
+ * The page's path in another language, e.g. /documentation/foundation/nsurlsession
+ */
+export function getVariantPath(doc: AppleDocJSON, language: DocLanguage): string | undefined {
+  const interfaceLanguage = INTERFACE_LANGUAGES[language];
+  return doc.variants?.find(v => v.traits.some(t => t.interfaceLanguage === interfaceLanguage))?.paths[0];
+}
+
+/**
+ * A copy of the page with the language's variant overrides applied
+ *
+ * Pages are fetched in their Swift form, so Swift is returned unchanged.
+ */
+export function applyLanguageVariant(doc: AppleDocJSON, language: DocLanguage): AppleDocJSON {
+  const interfaceLanguage = INTERFACE_LANGUAGES[language];
+  const overrides = (doc.variantOverrides ?? [])
+    .filter(o => o.traits.some(t => t.interfaceLanguage === interfaceLanguage));
+  if (language === "swift" || overrides.length === 0) {
+    return doc;
+  }
+
+  const patched = structuredClone(doc);
+  for (const override of overrides) {
+    for (const operation of override.patch) {
+      applyPatchOperation(patched, operation);
+    }
+  }
+  return patched;
+}
+
+/**
+ * Apply one JSON Patch operation in place, skipping paths that don't resolve
+ */
+function applyPatchOperation(target: unknown, operation: VariantPatchOperation): void {
+  // JSON Pointer: "/references/doc:~1~1com.apple.foundation~1documentation~1foundation~1nsurl/title"
+  const segments = operation.path.split("/").slice(1).map(s => s.replace(/~1/g, "/").replace(/~0/g, "~"));
+  const key = segments.pop();
+  if (key === undefined) {
+    return;
+  }
+
+  let parent = target as Record<string, unknown> | unknown[] | undefined;
+  for (const segment of segments) {
+    parent = (parent as Record<string, unknown> | undefined)?.[segment] as typeof parent;
+    if (parent === null || typeof parent !== "object") {
+      return;
+    }
+  }
+  if (!parent) {
+    return;
+  }
+
+  if (Array.isArray(parent)) {
+    const index = key === "-" ? parent.length : Number(key);
+    if (!Number.isInteger(index)) return;
+    switch (operation.op) {
+      case "add": parent.splice(index, 0, operation.value); break;
+      case "replace": parent[index] = operation.value; break;
+      case "remove": parent.splice(index, 1); break;
+    }
+    return;
+  }
+
+  switch (operation.op) {
+    case "add":
+    case "replace":
+      parent[key] = operation.value;
+      break;
+    case "remove":
+      delete parent[key];
+      break;
+  }
+}
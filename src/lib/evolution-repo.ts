@@ -0,0 +1,227 @@
+/**
+ * Swift Evolution Proposal Documents
+ *
+ * Reads proposals from a local clone of swiftlang/swift-evolution (or
+ * GitHub when there is none): the header block and Introduction of every
+ * proposal, and individual sections such as Motivation on request.
+ */
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+
+import { EVOLUTION_REPO, OFFLINE } from "./config.js";
+import { fetchWithRetry } from "./http.js";
+
+export interface LocalProposal {
+  fileName: string;
+  id: string;
+  title: string;
+  status: string;
+  authors: string[];
+  reviewManagers: string[];
+  implementation: string[];
+  upcomingFeatureFlag?: {
+    flag: string;
+    enabledInLanguageMode?: string;
+  };
+  experimentalFeatureFlag?: string;
+  previousRevisions: string[];
+  previousProposals: string[];
+  introduction: string;
+}
+
+export interface ProposalSection {
+  title: string;
+  content: string;
+}
+
+// Raw proposal documents, for section lookups without a local clone
+const RAW_PROPOSALS_URL = "https://raw.githubusercontent.com/swiftlang/swift-evolution/main/proposals";
+
+// "0413-typed-throws.md"
+const PROPOSAL_FILE = /^\d{4}-.+\.md$/;
+
+/**
+ * Parse every proposal in the local clone
+ *
+ * Returns null when no clone is configured or its proposals directory can't be read.
+ */
+export async function readLocalProposals(repo: string | undefined = EVOLUTION_REPO): Promise<LocalProposal[] | null> {
+  if (!repo) {
+    return null;
+  }
+
+  let files: string[];
+  try {
+    files = (await readdir(path.join(repo, "proposals"))).filter(f => PROPOSAL_FILE.test(f)).sort();
+  } catch {
+    return null;
+  }
+
+  const proposals = await Promise.all(files.map(async fileName => {
+    try {
+      return parseProposal(await readFile(path.join(repo, "proposals", fileName), "utf8"), fileName);
+    } catch {
+      return null;
+    }
+  }));
+  return proposals.filter((p): p is LocalProposal => p !== null);
+}
+
+/**
+ * Read named "##" sections of a proposal, from the local clone or GitHub
+ */
+export async function readProposalSections(fileName: string, titles: string[]): Promise<ProposalSection[]> {
+  const markdown = await readProposalDocument(fileName);
+  if (!markdown) {
+    return [];
+  }
+
+  const wanted = titles.map(t => t.toLowerCase());
+  return getSections(markdown).filter(s => wanted.some(w => s.title.toLowerCase().startsWith(w)));
+}
+
+/**
+ * A proposal's markdown, or null when it can't be read
+ */
+async function readProposalDocument(fileName: string): Promise<string | null> {
+  if (EVOLUTION_REPO) {
+    try {
+      return await readFile(path.join(EVOLUTION_REPO, "proposals", fileName), "utf8");
+    } catch {
+      // Not in the clone (yet); try GitHub
+    }
+  }
+  if (OFFLINE) {
+    return null;
+  }
+
+  try {
+    const response = await fetchWithRetry(`${RAW_PROPOSALS_URL}/${fileName}`, {}, r => r.text());
+    return response.body;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a proposal's title, header block and Introduction
+ */
+function parseProposal(markdown: string, fileName: string): LocalProposal | null {
+  const title = markdown.match(/^#\s+(.+)$/m)?.[1].trim();
+  if (!title) {
+    return null;
+  }
+
+  // Header block, before the first section: "* Proposal: [SE-0413](0413-typed-throws.md)"
+  const header = markdown.split(/^##\s/m)[0];
+  const fields = new Map<string, string>();
+  for (const match of header.matchAll(/^[*-]\s+([A-Za-z][A-Za-z ()]*?):\s*(.+)$/gm)) {
+    const name = getFieldKey(match[1]);
+    if (!fields.has(name)) {
+      fields.set(name, match[2].trim());
+    }
+  }
+  const field = (name: string) => fields.get(getFieldKey(name));
+
+  const id = field("Proposal")?.match(/SE-\d{4}/)?.[0] ?? `SE-${fileName.slice(0, 4)}`;
+  const introduction = getSections(markdown).find(s => /^introduction/i.test(s.title))?.content ?? "";
+
+  return {
+    fileName,
+    id,
+    title: stripMarkdown(title),
+    status: stripMarkdown(field("Status") ?? ""),
+    authors: getNames(field("Authors")),
+    reviewManagers: getNames(field("Review Manager")),
+    implementation: getLinkTexts(field("Implementation")),
+    upcomingFeatureFlag: parseFeatureFlag(field("Upcoming Feature Flag")),
+    experimentalFeatureFlag: parseFeatureFlag(field("Experimental Feature Flag"))?.flag,
+    previousRevisions: getLinkURLs(field("Previous Revision"), fileName),
+    previousProposals: [...new Set(field("Previous Proposal")?.match(/SE-\d{4}/g) ?? [])],
+    introduction
+  };
+}
+
+/**
+ * Key for a header field name; "Author(s)", "Authors" and "Author" are the same field
+ */
+function getFieldKey(name: string): string {
+  return name.toLowerCase().replace(/\(s\)$/, "").replace(/s$/, "");
+}
+
+/**
+ * Split a proposal into its "##" sections
+ */
+function getSections(markdown: string): ProposalSection[] {
+  const sections: ProposalSection[] = [];
+  let current: ProposalSection | null = null;
+  let inFence = false;
+
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+    const heading = !inFence ? line.match(/^##\s+(.+?)\s*#*$/) : null;
+    if (heading) {
+      current = { title: heading[1], content: "" };
+      sections.push(current);
+    } else if (current) {
+      current.content += `${line}\n`;
+    }
+  }
+
+  return sections.map(s => ({ ...s, content: s.content.trim() }));
+}
+
+/**
+ * Parse "`StrictConcurrency` (Enabled in Swift 6 language mode)"
+ */
+function parseFeatureFlag(value: string | undefined): LocalProposal["upcomingFeatureFlag"] {
+  const flag = value?.match(/`([A-Za-z]+)`/)?.[1] ?? value?.match(/^([A-Za-z]+)/)?.[1];
+  if (!flag || /^n\/?a$|^none$/i.test(flag)) {
+    return undefined;
+  }
+  const mode = value?.match(/enabled in Swift (\d+) (?:language )?mode/i)?.[1];
+  return mode ? { flag, enabledInLanguageMode: mode } : { flag };
+}
+
+/**
+ * People listed in a header field: "[Doug Gregor](https://github.com/DougGregor), [Holly Borla](...)"
+ */
+function getNames(value: string | undefined): string[] {
+  if (!value) {
+    return [];
+  }
+  const linked = getLinkTexts(value);
+  const names = linked.length > 0 ? linked : value.split(/,\s*|\s+and\s+/);
+  return names
+    .map(n => stripMarkdown(n).replace(/\s*\(@[^)]*\)/, "").trim())
+    .filter(n => n.length > 0);
+}
+
+/**
+ * Text of each markdown link in a header field
+ */
+function getLinkTexts(value: string | undefined): string[] {
+  return [...(value ?? "").matchAll(/\[([^\]]+)\]\([^)]*\)/g)].map(m => m[1].trim());
+}
+
+/**
+ * Target of each markdown link, with relative links resolved against the proposals directory
+ */
+function getLinkURLs(value: string | undefined, fileName: string): string[] {
+  return [...(value ?? "").matchAll(/\[[^\]]*\]\(([^)\s]+)\)/g)]
+    .map(m => m[1])
+    .filter(url => url !== fileName)
+    .map(url => /^https?:/.test(url)
+      ? url
+      : `https://github.com/swiftlang/swift-evolution/blob/main/proposals/${url.replace(/^\.\//, "")}`);
+}
+
+/**
+ * Drop emphasis and code markers
+ */
+function stripMarkdown(text: string): string {
+  return text.replace(/\*\*|__|`/g, "").trim();
+}
@@ -0,0 +1,599 @@
+/**
+ * Swift Evolution Snapshot
+ *
+ * Bundled copy of the proposals most often asked about, used when the
+ * metadata feed can't be reached and nothing is cached.
+ */
+
+import type { SwiftEvolutionProposal } from "./swift-evolution.js";
+
+const PROPOSALS = "https://github.com/swiftlang/swift-evolution/blob/main/proposals";
+
+export const EVOLUTION_SNAPSHOT: Array<Omit<SwiftEvolutionProposal, "keywords">> = [
+  // Swift 6.2
+  {
+    id: "SE-0472",
+    title: "Starting tasks synchronously from caller context",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Adds Task.immediate, which starts running a task synchronously on the caller's executor until its first suspension.",
+    link: `${PROPOSALS}/0472-task-start-synchronously-on-caller-context.md`
+  },
+  {
+    id: "SE-0470",
+    title: "Global-actor isolated conformances",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Allows a conformance to be isolated to a global actor, so @MainActor types can conform to nonisolated protocols.",
+    link: `${PROPOSALS}/0470-isolated-conformances.md`,
+    upcomingFeatureFlag: { flag: "InferIsolatedConformances" }
+  },
+  {
+    id: "SE-0469",
+    title: "Task Naming",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Lets tasks and task group children be given a human-readable name for debugging.",
+    link: `${PROPOSALS}/0469-task-names.md`
+  },
+  {
+    id: "SE-0466",
+    title: "Control default actor isolation inference",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Adds a per-module setting that makes code isolated to the main actor by default.",
+    link: `${PROPOSALS}/0466-control-default-actor-isolation.md`
+  },
+  {
+    id: "SE-0461",
+    title: "Run nonisolated async functions on the caller's actor by default",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Nonisolated async functions run on the caller's actor instead of the global executor; @concurrent opts back in to switching.",
+    link: `${PROPOSALS}/0461-async-function-isolation.md`,
+    upcomingFeatureFlag: { flag: "NonisolatedNonsendingByDefault" }
+  },
+  {
+    id: "SE-0458",
+    title: "Opt-in Strict Memory Safety Checking",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Adds an opt-in mode that flags uses of unsafe constructs, acknowledged with the unsafe expression and @unsafe attribute.",
+    link: `${PROPOSALS}/0458-strict-memory-safety.md`
+  },
+  {
+    id: "SE-0453",
+    title: "InlineArray, a fixed-size array",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Adds InlineArray, a fixed-size array stored inline without heap allocation.",
+    link: `${PROPOSALS}/0453-vector.md`
+  },
+  {
+    id: "SE-0451",
+    title: "Raw identifiers",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Allows identifiers containing spaces and other characters when written between backticks.",
+    link: `${PROPOSALS}/0451-escaped-identifiers.md`
+  },
+  {
+    id: "SE-0447",
+    title: "Span: Safe Access to Contiguous Storage",
+    status: "implemented",
+    swiftVersion: "6.2",
+    summary: "Adds Span, a non-escapable, bounds-checked view of contiguous memory.",
+    link: `${PROPOSALS}/0447-span-access-shared-contiguous-storage.md`
+  },
+
+  // Swift 6.1
+  {
+    id: "SE-0449",
+    title: "Allow nonisolated to prevent global actor inference",
+    status: "implemented",
+    swiftVersion: "6.1",
+    summary: "Allows nonisolated on types and extensions to stop global actor isolation being inferred.",
+    link: `${PROPOSALS}/0449-nonisolated-for-global-actor-cutoff.md`
+  },
+  {
+    id: "SE-0444",
+    title: "Member import visibility",
+    status: "implemented",
+    swiftVersion: "6.1",
+    summary: "Members declared in extensions are only visible in files that import their module.",
+    link: `${PROPOSALS}/0444-member-import-visibility.md`,
+    upcomingFeatureFlag: { flag: "MemberImportVisibility" }
+  },
+  {
+    id: "SE-0442",
+    title: "Allow TaskGroup's ChildTaskResult Type To Be Inferred",
+    status: "implemented",
+    swiftVersion: "6.1",
+    summary: "The child task result type of withTaskGroup can be inferred from the closure.",
+    link: `${PROPOSALS}/0442-allow-taskgroup-childtaskresult-type-to-be-inferred.md`
+  },
+  {
+    id: "SE-0439",
+    title: "Allow trailing comma in comma-separated lists",
+    status: "implemented",
+    swiftVersion: "6.1",
+    summary: "Allows a trailing comma in parameter lists, tuples, generic lists and other comma-separated lists.",
+    link: `${PROPOSALS}/0439-trailing-comma-lists.md`
+  },
+
+  // Swift 6.0
+  {
+    id: "SE-0434",
+    title: "Usability of global-actor-isolated types",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Relaxes isolation rules for Sendable stored properties and closures of global-actor-isolated types.",
+    link: `${PROPOSALS}/0434-global-actor-isolated-types-usability.md`,
+    upcomingFeatureFlag: { flag: "GlobalActorIsolatedTypesUsability", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0433",
+    title: "Synchronous Mutual Exclusion Lock",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Adds Mutex to the Synchronization module.",
+    link: `${PROPOSALS}/0433-mutex.md`
+  },
+  {
+    id: "SE-0431",
+    title: "@isolated(any) Function Types",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Function types that carry their actor isolation dynamically.",
+    link: `${PROPOSALS}/0431-isolated-any-functions.md`
+  },
+  {
+    id: "SE-0430",
+    title: "`sending` parameter and result values",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Marks parameters and results that are transferred into a new isolation region.",
+    link: `${PROPOSALS}/0430-transferring-parameters-and-results.md`
+  },
+  {
+    id: "SE-0427",
+    title: "Noncopyable Generics",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Allows generic types and protocols to work with noncopyable types via ~Copyable.",
+    link: `${PROPOSALS}/0427-noncopyable-generics.md`
+  },
+  {
+    id: "SE-0426",
+    title: "BitwiseCopyable",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Adds a marker protocol for types that can be copied with memcpy.",
+    link: `${PROPOSALS}/0426-bitwise-copyable.md`
+  },
+  {
+    id: "SE-0423",
+    title: "Dynamic actor isolation enforcement from non-strict-concurrency contexts",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Enforces actor isolation dynamically when called from contexts without strict concurrency checking.",
+    link: `${PROPOSALS}/0423-dynamic-actor-isolation.md`,
+    upcomingFeatureFlag: { flag: "DynamicActorIsolation", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0420",
+    title: "Inheritance of actor isolation",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Allows async functions to inherit the actor isolation of their caller through an isolated parameter.",
+    link: `${PROPOSALS}/0420-inheritance-of-actor-isolation.md`
+  },
+  {
+    id: "SE-0418",
+    title: "Inferring Sendable for methods and key path literals",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Infers Sendable for unapplied method references and key path literals that capture only Sendable values.",
+    link: `${PROPOSALS}/0418-inferring-sendable-for-methods.md`,
+    upcomingFeatureFlag: { flag: "InferSendableFromCaptures", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0414",
+    title: "Region based Isolation",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Introduces region-based isolation to allow more flexible data sharing across concurrency domains.",
+    link: `${PROPOSALS}/0414-region-based-isolation.md`,
+    upcomingFeatureFlag: { flag: "RegionBasedIsolation", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0413",
+    title: "Typed throws",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Allows functions to specify the exact error type they throw using 'throws(ErrorType)'.",
+    link: `${PROPOSALS}/0413-typed-throws.md`
+  },
+  {
+    id: "SE-0410",
+    title: "Low-Level Atomic Operations",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Adds Atomic and related types to the Synchronization module.",
+    link: `${PROPOSALS}/0410-atomics.md`
+  },
+  {
+    id: "SE-0409",
+    title: "Access-level modifiers on import declarations",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Allows imports to be declared public, package, internal, fileprivate or private.",
+    link: `${PROPOSALS}/0409-access-level-on-imports.md`,
+    upcomingFeatureFlag: { flag: "InternalImportsByDefault" }
+  },
+  {
+    id: "SE-0364",
+    title: "Warning for Retroactive Conformances of External Types",
+    status: "implemented",
+    swiftVersion: "6.0",
+    summary: "Warns when a type from another module conforms to a protocol from another module, silenced with @retroactive.",
+    link: `${PROPOSALS}/0364-retroactive-conformance-warning.md`
+  },
+
+  // Swift 5.10
+  {
+    id: "SE-0412",
+    title: "Strict concurrency for global variables",
+    status: "implemented",
+    swiftVersion: "5.10",
+    summary: "Requires global and static variables to be isolated to a global actor or be Sendable; nonisolated(unsafe) opts out of the check.",
+    link: `${PROPOSALS}/0412-strict-concurrency-for-global-variables.md`,
+    upcomingFeatureFlag: { flag: "GlobalConcurrency", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0411",
+    title: "Isolated default value expressions",
+    status: "implemented",
+    swiftVersion: "5.10",
+    summary: "Allows default parameter values to be isolated to an actor.",
+    link: `${PROPOSALS}/0411-isolated-default-values.md`,
+    upcomingFeatureFlag: { flag: "IsolatedDefaultValues", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0383",
+    title: "Deprecate @UIApplicationMain and @NSApplicationMain",
+    status: "implemented",
+    swiftVersion: "5.10",
+    summary: "Deprecates the app-specific main attributes in favor of @main.",
+    link: `${PROPOSALS}/0383-deprecate-uiapplicationmain-and-nsapplicationmain.md`,
+    upcomingFeatureFlag: { flag: "DeprecateApplicationMain", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0327",
+    title: "On Actors and Initialization",
+    status: "implemented",
+    swiftVersion: "5.10",
+    summary: "Defines the isolation rules for actor initializers and deinitializers.",
+    link: `${PROPOSALS}/0327-actor-initializers.md`
+  },
+
+  // Swift 5.9
+  {
+    id: "SE-0401",
+    title: "Remove Actor Isolation Inference caused by Property Wrappers",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Property wrappers no longer infer actor isolation on the enclosing type.",
+    link: `${PROPOSALS}/0401-remove-property-wrapper-isolation.md`,
+    upcomingFeatureFlag: { flag: "DisableOutwardActorInference", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0397",
+    title: "Freestanding Declaration Macros",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Macros that expand to declarations where they are written.",
+    link: `${PROPOSALS}/0397-freestanding-declaration-macros.md`
+  },
+  {
+    id: "SE-0395",
+    title: "Observation",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Introduces the @Observable macro for automatic change tracking in classes.",
+    link: `${PROPOSALS}/0395-observability.md`
+  },
+  {
+    id: "SE-0394",
+    title: "Package Manager Support for Custom Macros",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Allows Swift packages to define and distribute custom macros.",
+    link: `${PROPOSALS}/0394-swiftpm-expression-macros.md`
+  },
+  {
+    id: "SE-0393",
+    title: "Value and Type Parameter Packs",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Introduces variadic generics via parameter packs.",
+    link: `${PROPOSALS}/0393-parameter-packs.md`
+  },
+  {
+    id: "SE-0392",
+    title: "Custom Actor Executors",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Allows actors to customize their execution context.",
+    link: `${PROPOSALS}/0392-custom-actor-executors.md`
+  },
+  {
+    id: "SE-0390",
+    title: "Noncopyable structs and enums",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Introduces ~Copyable types that cannot be implicitly copied.",
+    link: `${PROPOSALS}/0390-noncopyable-structs-and-enums.md`
+  },
+  {
+    id: "SE-0389",
+    title: "Attached Macros",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Macros that can be attached to declarations to generate additional code.",
+    link: `${PROPOSALS}/0389-attached-macros.md`
+  },
+  {
+    id: "SE-0388",
+    title: "Convenience Async[Throwing]Stream.makeStream methods",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Adds makeStream, which returns a stream together with its continuation.",
+    link: `${PROPOSALS}/0388-async-stream-factory.md`
+  },
+  {
+    id: "SE-0386",
+    title: "New access modifier: package",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Adds the package access level, visible across modules in the same package.",
+    link: `${PROPOSALS}/0386-package-access-modifier.md`
+  },
+  {
+    id: "SE-0384",
+    title: "Importing Forward Declared Objective-C Interfaces and Protocols",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Imports forward-declared Objective-C classes and protocols as incomplete types.",
+    link: `${PROPOSALS}/0384-importing-forward-declared-objc-interfaces-and-protocols.md`,
+    upcomingFeatureFlag: { flag: "ImportObjcForwardDeclarations", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0382",
+    title: "Expression Macros",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Macros that can be used in expression contexts (#stringify, etc.).",
+    link: `${PROPOSALS}/0382-expression-macros.md`
+  },
+  {
+    id: "SE-0381",
+    title: "DiscardingTaskGroups",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Task groups that discard child results as they complete, for long-running servers.",
+    link: `${PROPOSALS}/0381-task-group-discard-results.md`
+  },
+  {
+    id: "SE-0380",
+    title: "if and switch expressions",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Allows if and switch to be used as expressions that return values.",
+    link: `${PROPOSALS}/0380-if-switch-expressions.md`
+  },
+  {
+    id: "SE-0377",
+    title: "borrowing and consuming parameter ownership modifiers",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Allows explicit control over parameter ownership with borrowing and consuming modifiers.",
+    link: `${PROPOSALS}/0377-parameter-ownership-modifiers.md`
+  },
+  {
+    id: "SE-0366",
+    title: "consume operator to end the lifetime of a variable binding",
+    status: "implemented",
+    swiftVersion: "5.9",
+    summary: "Adds the consume operator, which ends a local binding's lifetime and moves its value.",
+    link: `${PROPOSALS}/0366-move-function.md`
+  },
+
+  // Swift 5.8
+  {
+    id: "SE-0365",
+    title: "Allow implicit self for weak self captures, after self is unwrapped",
+    status: "implemented",
+    swiftVersion: "5.8",
+    summary: "Closures that capture [weak self] can use implicit self once self has been unwrapped.",
+    link: `${PROPOSALS}/0365-implicit-self-weak-capture.md`
+  },
+  {
+    id: "SE-0274",
+    title: "Concise magic file names",
+    status: "implemented",
+    swiftVersion: "5.8",
+    summary: "Changes #file to the short module/file form, with #filePath for the full path.",
+    link: `${PROPOSALS}/0274-magic-file.md`,
+    upcomingFeatureFlag: { flag: "ConciseMagicFile", enabledInLanguageMode: "6" }
+  },
+
+  // Swift 5.7
+  {
+    id: "SE-0354",
+    title: "Regex Literals",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Adds regex literals, written #/.../# or /.../, checked at compile time.",
+    link: `${PROPOSALS}/0354-regex-literals.md`,
+    upcomingFeatureFlag: { flag: "BareSlashRegexLiterals", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0352",
+    title: "Implicitly Opened Existentials",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Existential types (any Protocol) can be implicitly opened when passed to generic functions.",
+    link: `${PROPOSALS}/0352-implicit-open-existentials.md`,
+    upcomingFeatureFlag: { flag: "ImplicitOpenExistentials", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0346",
+    title: "Lightweight same-type requirements for primary associated types",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Allows constrained protocol types such as some Collection<String>.",
+    link: `${PROPOSALS}/0346-light-weight-same-type-syntax.md`
+  },
+  {
+    id: "SE-0345",
+    title: "if let shorthand for shadowing an existing optional variable",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Allows 'if let x' as shorthand for 'if let x = x'.",
+    link: `${PROPOSALS}/0345-if-let-shorthand.md`
+  },
+  {
+    id: "SE-0341",
+    title: "Opaque Parameter Declarations",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Allows some Protocol in parameter position as shorthand for a generic parameter.",
+    link: `${PROPOSALS}/0341-opaque-parameters.md`
+  },
+  {
+    id: "SE-0326",
+    title: "Enable multi-statement closure parameter/result type inference",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Closures with multiple statements can now have their parameter/result types inferred.",
+    link: `${PROPOSALS}/0326-extending-multi-statement-closure-type-inference.md`
+  },
+  {
+    id: "SE-0309",
+    title: "Unlock existential types for all protocols",
+    status: "implemented",
+    swiftVersion: "5.7",
+    summary: "Any protocol can now be used as an existential type with 'any'.",
+    link: `${PROPOSALS}/0309-unlock-existential-types-for-all-protocols.md`
+  },
+
+  // Swift 5.6 and earlier
+  {
+    id: "SE-0337",
+    title: "Incremental migration to concurrency checking",
+    status: "implemented",
+    swiftVersion: "5.6",
+    summary: "Adds @preconcurrency and the minimal/targeted/complete levels of concurrency checking.",
+    link: `${PROPOSALS}/0337-support-incremental-migration-to-concurrency-checking.md`,
+    upcomingFeatureFlag: { flag: "StrictConcurrency", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0335",
+    title: "Introduce existential any",
+    status: "implemented",
+    swiftVersion: "5.6",
+    summary: "Existential types are spelled with the any keyword.",
+    link: `${PROPOSALS}/0335-existential-any.md`,
+    upcomingFeatureFlag: { flag: "ExistentialAny" }
+  },
+  {
+    id: "SE-0290",
+    title: "Unavailability Condition",
+    status: "implemented",
+    swiftVersion: "5.6",
+    summary: "Adds #unavailable, the inverse of #available.",
+    link: `${PROPOSALS}/0290-negative-availability.md`
+  },
+  {
+    id: "SE-0317",
+    title: "async let bindings",
+    status: "implemented",
+    swiftVersion: "5.5",
+    summary: "Starts child tasks concurrently with async let and awaits them later.",
+    link: `${PROPOSALS}/0317-async-let.md`
+  },
+  {
+    id: "SE-0316",
+    title: "Global actors",
+    status: "implemented",
+    swiftVersion: "5.5",
+    summary: "Introduces global actors such as @MainActor that isolate declarations across types.",
+    link: `${PROPOSALS}/0316-global-actors.md`
+  },
+  {
+    id: "SE-0306",
+    title: "Actors",
+    status: "implemented",
+    swiftVersion: "5.5",
+    summary: "Introduces actors, reference types that protect their mutable state from data races.",
+    link: `${PROPOSALS}/0306-actors.md`
+  },
+  {
+    id: "SE-0302",
+    title: "Sendable and @Sendable closures",
+    status: "implemented",
+    swiftVersion: "5.5",
+    summary: "Introduces the Sendable protocol and @Sendable closures for values safe to share across concurrency domains.",
+    link: `${PROPOSALS}/0302-concurrent-value-and-concurrent-closures.md`
+  },
+  {
+    id: "SE-0296",
+    title: "Async/await",
+    status: "implemented",
+    swiftVersion: "5.5",
+    summary: "Introduces async functions and the await keyword.",
+    link: `${PROPOSALS}/0296-async-await.md`
+  },
+  {
+    id: "SE-0289",
+    title: "Result builders",
+    status: "implemented",
+    swiftVersion: "5.4",
+    summary: "Builds values from a sequence of statements, as used by SwiftUI's view builders.",
+    link: `${PROPOSALS}/0289-result-builders.md`
+  },
+  {
+    id: "SE-0286",
+    title: "Forward-scan matching for trailing closures",
+    status: "implemented",
+    swiftVersion: "5.3",
+    summary: "Matches unlabeled trailing closures to parameters scanning forward.",
+    link: `${PROPOSALS}/0286-forward-scan-trailing-closures.md`,
+    upcomingFeatureFlag: { flag: "ForwardTrailingClosures", enabledInLanguageMode: "6" }
+  },
+  {
+    id: "SE-0258",
+    title: "Property Wrappers",
+    status: "implemented",
+    swiftVersion: "5.1",
+    summary: "Attributes such as @State that wrap a property's storage with custom get/set behavior.",
+    link: `${PROPOSALS}/0258-property-wrappers.md`
+  },
+  {
+    id: "SE-0255",
+    title: "Implicit returns from single-expression functions",
+    status: "implemented",
+    swiftVersion: "5.1",
+    summary: "Single-expression functions and getters can omit return.",
+    link: `${PROPOSALS}/0255-omit-return.md`
+  },
+  {
+    id: "SE-0244",
+    title: "Opaque Result Types",
+    status: "implemented",
+    swiftVersion: "5.1",
+    summary: "Adds some Protocol return types that hide the concrete type from callers.",
+    link: `${PROPOSALS}/0244-opaque-result-types.md`
+  }
+];
@@ -0,0 +1,92 @@
+/**
+ * Swift Feature Flag Build Settings
+ *
+ * Turns a proposal's upcoming or experimental feature flag into the
+ * settings that enable it in Package.swift, Xcode and on the command line.
+ */
+
+import { SwiftEvolutionProposal } from "./swift-evolution.js";
+
+export type FeatureFlagKind = "upcoming" | "experimental";
+
+export interface FeatureBuildSettings {
+  flag: string;
+  kind: FeatureFlagKind;
+  enabledInLanguageMode?: string;
+  packageSwift: string;
+  otherSwiftFlags: string;
+  commandLine: string;
+}
+
+/**
+ * Build settings for a proposal's feature flag, or null when it has none
+ */
+export function getFeatureBuildSettings(proposal: SwiftEvolutionProposal): FeatureBuildSettings | null {
+  if (proposal.upcomingFeatureFlag) {
+    const { flag, enabledInLanguageMode } = proposal.upcomingFeatureFlag;
+    return {
+      flag,
+      kind: "upcoming",
+      ...(enabledInLanguageMode ? { enabledInLanguageMode } : {}),
+      packageSwift: `.enableUpcomingFeature("${flag}")`,
+      otherSwiftFlags: `-enable-upcoming-feature ${flag}`,
+      commandLine: `swiftc -enable-upcoming-feature ${flag}`
+    };
+  }
+
+  if (proposal.experimentalFeatureFlag) {
+    const flag = proposal.experimentalFeatureFlag;
+    return {
+      flag,
+      kind: "experimental",
+      packageSwift: `.enableExperimentalFeature("${flag}")`,
+      otherSwiftFlags: `-enable-experimental-feature ${flag}`,
+      commandLine: `swiftc -enable-experimental-feature ${flag}`
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Markdown with ready-to-paste settings for one or more feature flags
+ */
+export function formatBuildSettings(settings: FeatureBuildSettings[]): string {
+  if (settings.length === 0) {
+    return "";
+  }
+
+  const packageSettings = settings.map(s => `        ${s.packageSwift}`).join(",\n");
+  const otherSwiftFlags = settings.map(s => s.otherSwiftFlags).join(" ");
+  const commandLine = `swiftc ${settings.map(s => s.otherSwiftFlags).join(" ")}`;
+
+  let output = `**Package.swift:**\n\n`;
+  output += "```swift\n";
+  output += `.target(\n    name: "MyTarget",\n    swiftSettings: [\n${packageSettings}\n    ]\n)\n`;
+  output += "```\n\n";
+
+  output += `**Xcode** (Build Settings → Other Swift Flags, \`OTHER_SWIFT_FLAGS\`):\n\n`;
+  output += "```\n";
+  output += `${otherSwiftFlags}\n`;
+  output += "```\n\n";
+
+  output += `**Command line:**\n\n`;
+  output += "```bash\n";
+  output += `${commandLine}\n`;
+  output += "```\n\n";
+
+  const modes = [...new Set(settings.map(s => s.enabledInLanguageMode).filter((m): m is string => !!m))];
+  for (const mode of modes) {
+    const flags = settings.filter(s => s.enabledInLanguageMode === mode).map(s => `\`${s.flag}\``);
+    const plural = flags.length > 1;
+    output += `> ℹ️ ${flags.join(", ")} ${plural ? "are" : "is"} on by default in the Swift ${mode} language mode `;
+    output += `(\`swiftLanguageModes: [.v${mode}]\`, Xcode \`SWIFT_VERSION = ${mode}\`, \`-swift-version ${mode}\`); `;
+    output += `${plural ? "the flags adopt them" : "the flag adopts it"} early in older modes.\n\n`;
+  }
+
+  if (settings.some(s => s.kind === "experimental")) {
+    output += `> ⚠️ Experimental features can change or be removed, and release compilers may reject them; they are not for production code.\n\n`;
+  }
+
+  return output;
+}
@@ -0,0 +1,225 @@
+/**
+ * HTTP Request Layer
+ *
+ * Fetches with per-request timeouts, bounded concurrency and
+ * exponential backoff, plus cancellable first-success probing.
+ */
+
+import { MAX_CONCURRENT_REQUESTS, MAX_RETRIES, REQUEST_TIMEOUT_MS } from "./config.js";
+
+// Backoff starts here and doubles per attempt
+const BASE_BACKOFF_MS = 500;
+
+// Never wait longer than this between attempts, whatever Retry-After says
+const MAX_BACKOFF_MS = 10000;
+
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+/**
+ * A response whose body has been read, or dropped when the status isn't 2xx
+ */
+export interface FetchResult<T> {
+  status: number;
+  ok: boolean;
+  headers: Headers;
+  body: T | null;
+}
+
+/**
+ * Fetch a URL and read its body, retrying 429/5xx responses and network errors with backoff
+ *
+ * The body is read inside the request's timeout, abort scope and concurrency
+ * slot, so a server that stalls after its headers can't hang the caller.
+ * Throws if the caller's signal aborts or every attempt fails without a response.
+ */
+export async function fetchWithRetry<T>(
+  url: string,
+  init: RequestInit,
+  readBody: (response: Response) => Promise<T>,
+  signal?: AbortSignal
+): Promise<FetchResult<T>> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt <= MAX_RETRIES; attempt++) {
+    if (attempt > 0) {
+      await sleep(lastError instanceof Response ? getRetryDelay(lastError, attempt) : backoff(attempt), signal);
+    }
+
+    try {
+      const result = await withConcurrencyLimit(() => fetchWithTimeout(url, init, signal, async response => {
+        if (isRetryable(response.status) && attempt < MAX_RETRIES) {
+          // Release the connection now rather than at garbage collection
+          await response.body?.cancel();
+          return response;
+        }
+        return readResult(response, readBody);
+      }));
+      if (!(result instanceof Response)) {
+        return result;
+      }
+      lastError = result;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      lastError = error;
+    }
+  }
+
+  throw lastError instanceof Response
+    ? new Error(`Request failed with status ${lastError.status}: ${url}`)
+    : lastError;
+}
+
+/**
+ * Run tasks concurrently and return the first non-null result in priority order
+ *
+ * A result wins once every higher-priority task has come back empty; the
+ * remaining tasks are then aborted.
+ */
+export async function firstSuccess<T>(
+  tasks: Array<(signal: AbortSignal) => Promise<T | null>>
+): Promise<{ value: T; index: number } | null> {
+  if (tasks.length === 0) {
+    return null;
+  }
+
+  const controller = new AbortController();
+  const results: Array<{ settled: boolean; value: T | null }> = tasks.map(() => ({ settled: false, value: null }));
+
+  return new Promise(resolve => {
+    let done = false;
+
+    const check = () => {
+      if (done) return;
+      for (let i = 0; i < results.length; i++) {
+        if (!results[i].settled) return;
+        if (results[i].value !== null) {
+          done = true;
+          controller.abort();
+          resolve({ value: results[i].value as T, index: i });
+          return;
+        }
+      }
+      done = true;
+      resolve(null);
+    };
+
+    tasks.forEach((task, i) => {
+      task(controller.signal)
+        .then(value => { results[i] = { settled: true, value }; })
+        .catch(() => { results[i] = { settled: true, value: null }; })
+        .finally(check);
+    });
+  });
+}
+
+/**
+ * Fetch and handle the response with a timeout that also honours the caller's abort signal
+ *
+ * The timer and abort link stay in place until the handler has finished with the body.
+ */
+async function fetchWithTimeout<T>(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal | undefined,
+  handle: (response: Response) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+  if (signal?.aborted) {
+    controller.abort();
+  }
+
+  try {
+    return await handle(await fetch(url, { ...init, signal: controller.signal }));
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/**
+ * Run a request once a concurrency slot is free
+ *
+ * A finishing request hands its slot straight to the next waiter, so no
+ * newcomer can take it in between.
+ */
+async function withConcurrencyLimit<T>(run: () => Promise<T>): Promise<T> {
+  if (activeRequests >= MAX_CONCURRENT_REQUESTS) {
+    await new Promise<void>(resolve => waitingRequests.push(resolve));
+  } else {
+    activeRequests++;
+  }
+  try {
+    return await run();
+  } finally {
+    const next = waitingRequests.shift();
+    if (next) {
+      next();
+    } else {
+      activeRequests--;
+    }
+  }
+}
+
+/**
+ * Read a final response's body, cancelling it when the status isn't 2xx
+ */
+async function readResult<T>(response: Response, readBody: (response: Response) => Promise<T>): Promise<FetchResult<T>> {
+  const { status, ok, headers } = response;
+  if (!ok) {
+    await response.body?.cancel();
+    return { status, ok, headers, body: null };
+  }
+  return { status, ok, headers, body: await readBody(response) };
+}
+
+/**
+ * Whether a status is worth retrying
+ */
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before a retry, preferring the server's Retry-After
+ */
+function getRetryDelay(response: Response, attempt: number): number {
+  const retryAfter = Number(response.headers?.get("retry-after"));
+  return Number.isFinite(retryAfter) && retryAfter > 0
+    ? Math.min(retryAfter * 1000, MAX_BACKOFF_MS)
+    : backoff(attempt);
+}
+
+/**
+ * Exponential backoff with jitter
+ */
+function backoff(attempt: number): number {
+  const delay = BASE_BACKOFF_MS * 2 ** (attempt - 1);
+  return Math.min(delay + Math.random() * delay * 0.2, MAX_BACKOFF_MS);
+}
+
+/**
+ * Wait, waking early with an error if the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error("Request aborted"));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error("Request aborted"));
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,119 @@
+/**
+ * Swift Evolution Proposal Graph
+ *
+ * Links proposals that supersede, amend, revise or relate to each other,
+ * so a returned or superseded proposal can point at the current design.
+ */
+
+import type { ProposalRelation, ProposalRelationKind, SwiftEvolutionProposal } from "./swift-evolution.js";
+
+// Each edge is stored on both proposals, in the direction that reads from each
+const INVERSE: Record<ProposalRelationKind, ProposalRelationKind> = {
+  "supersedes": "superseded-by",
+  "superseded-by": "supersedes",
+  "amends": "amended-by",
+  "amended-by": "amends",
+  "previous-revision": "next-revision",
+  "next-revision": "previous-revision",
+  "related": "related"
+};
+
+// Listing order, most significant first
+const KIND_ORDER: ProposalRelationKind[] = [
+  "superseded-by", "next-revision", "supersedes", "previous-revision", "amended-by", "amends", "related"
+];
+
+// Phrases in a summary, status or introduction that name an edge
+const TEXT_RELATIONS: Array<{ kind: ProposalRelationKind; pattern: RegExp }> = [
+  { kind: "superseded-by", pattern: /\bsuperseded\s+by\s+\[?(SE-\d{4})/gi },
+  { kind: "supersedes", pattern: /\b(?:supersedes|superseding|replaces)\s+\[?(SE-\d{4})/gi },
+  { kind: "amended-by", pattern: /\bamended\s+by\s+\[?(SE-\d{4})/gi },
+  { kind: "amends", pattern: /\b(?:amends|amending|amendment\s+to|revises)\s+\[?(SE-\d{4})/gi }
+];
+
+/**
+ * Edges named in a proposal's text; any other proposal it mentions is related
+ */
+export function extractRelations(id: string, text: string): ProposalRelation[] {
+  const relations = new Map<string, ProposalRelationKind>();
+  for (const { kind, pattern } of TEXT_RELATIONS) {
+    for (const match of text.matchAll(pattern)) {
+      const other = match[1].toUpperCase();
+      if (!relations.has(other)) relations.set(other, kind);
+    }
+  }
+  for (const match of text.matchAll(/\bSE-\d{4}\b/gi)) {
+    const other = match[0].toUpperCase();
+    if (!relations.has(other)) relations.set(other, "related");
+  }
+  relations.delete(id);
+  return [...relations].map(([other, kind]) => ({ kind, id: other }));
+}
+
+/**
+ * Add the inverse of every edge, so each proposal lists both directions
+ *
+ * A specific edge wins over "related" between the same two proposals.
+ */
+export function linkProposals(proposals: SwiftEvolutionProposal[]): SwiftEvolutionProposal[] {
+  const edges = new Map<string, Map<string, ProposalRelationKind>>();
+  const add = (from: string, to: string, kind: ProposalRelationKind) => {
+    if (from === to) return;
+    const linked = edges.get(from) ?? new Map<string, ProposalRelationKind>();
+    const existing = linked.get(to);
+    if (!existing || existing === "related") {
+      linked.set(to, kind);
+    }
+    edges.set(from, linked);
+  };
+
+  for (const proposal of proposals) {
+    for (const relation of proposal.relations ?? []) {
+      add(proposal.id, relation.id, relation.kind);
+      add(relation.id, proposal.id, INVERSE[relation.kind]);
+    }
+  }
+
+  return proposals.map(proposal => {
+    const linked = edges.get(proposal.id);
+    if (!linked) {
+      return proposal;
+    }
+    const relations = [...linked]
+      .map(([id, kind]) => ({ kind, id }))
+      .sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind) || a.id.localeCompare(b.id));
+    return { ...proposal, relations };
+  });
+}
+
+/**
+ * The revision chain through a proposal, oldest first
+ *
+ * Follows previous revisions and superseded proposals back, then next
+ * revisions and successors forward; the last entry is the current design.
+ */
+export function getRevisionChain(
+  proposal: SwiftEvolutionProposal,
+  byId: Map<string, SwiftEvolutionProposal>
+): string[] {
+  const step = (from: SwiftEvolutionProposal, kinds: ProposalRelationKind[]) =>
+    from.relations?.find(r => kinds.includes(r.kind))?.id;
+
+  const seen = new Set([proposal.id]);
+  const chain = [proposal.id];
+
+  for (let id = step(proposal, ["previous-revision", "supersedes"]); id && !seen.has(id); ) {
+    seen.add(id);
+    chain.unshift(id);
+    const earlier = byId.get(id);
+    id = earlier ? step(earlier, ["previous-revision", "supersedes"]) : undefined;
+  }
+  for (let id = step(proposal, ["next-revision", "superseded-by"]); id && !seen.has(id); ) {
+    seen.add(id);
+    chain.push(id);
+    const later = byId.get(id);
+    id = later ? step(later, ["next-revision", "superseded-by"]) : undefined;
+  }
+
+  return chain;
+}
@@ -0,0 +1,215 @@
+/**
+ * Swift Evolution Proposal Search
+ *
+ * Ranks proposals against a free-text query using weighted fields,
+ * light stemming and typo tolerance.
+ */
+
+import { SwiftEvolutionProposal } from "./swift-evolution.js";
+import { levenshtein } from "./symbol-index.js";
+
+export interface ProposalMatch {
+  proposal: SwiftEvolutionProposal;
+  score: number;
+}
+
+interface IndexedProposal {
+  proposal: SwiftEvolutionProposal;
+  title: string[];
+  fields: Array<{ weight: number; text: string; tokens: Set<string> }>;
+}
+
+// Field weights; a query word counts once, at the best field it matches
+const KEYWORD_WEIGHT = 4;
+const TITLE_WEIGHT = 3;
+const SUMMARY_WEIGHT = 1;
+const BODY_WEIGHT = 0.5;
+
+// Bonus for each pair of adjacent query words found together in the title or keywords
+const PHRASE_BONUS = 3;
+
+// Bonus when the query is the proposal's title ("Actors")
+const TITLE_BONUS = 6;
+
+// Partial credit for looser word matches
+const PREFIX_CREDIT = 0.75;
+const TYPO_CREDIT = 0.5;
+
+// Results must score at least this, and this share of the best result
+const MIN_SCORE = 1;
+const RELATIVE_CUTOFF = 0.4;
+
+// Words that say nothing about which proposal is meant
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "can", "do", "does", "for", "from", "how", "i", "in", "is", "it", "of",
+  "on", "or", "swift", "the", "to", "use", "using", "what", "when", "with"
+]);
+
+// "SE-0413", "se 413", "0413"
+const PROPOSAL_ID = /^(?:se[-\s]?)?(\d{1,4})$/i;
+
+/**
+ * Rank proposals by relevance to the query, best first
+ */
+export function searchProposals(
+  proposals: SwiftEvolutionProposal[],
+  query: string,
+  limit: number
+): ProposalMatch[] {
+  const idMatch = query.trim().match(PROPOSAL_ID);
+  if (idMatch) {
+    const id = `SE-${idMatch[1].padStart(4, "0")}`;
+    const proposal = proposals.find(p => p.id === id);
+    if (proposal) {
+      return [{ proposal, score: Infinity }];
+    }
+  }
+
+  const words = tokenize(query);
+  if (words.length === 0) {
+    return [];
+  }
+  const phrases = getPhrases(query);
+
+  const scored = proposals
+    .map(proposal => ({ proposal, score: scoreProposal(indexProposal(proposal), words, phrases) }))
+    .filter(m => m.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score || a.proposal.id.localeCompare(b.proposal.id));
+
+  const best = scored[0]?.score ?? 0;
+  return scored.filter(m => m.score >= best * RELATIVE_CUTOFF).slice(0, limit);
+}
+
+/**
+ * Tokenize the searchable fields of a proposal
+ */
+function indexProposal(proposal: SwiftEvolutionProposal): IndexedProposal {
+  const field = (weight: number, text: string) => ({ weight, text: ` ${normalizePhrase(text)} `, tokens: new Set(tokenize(text)) });
+  return {
+    proposal,
+    title: tokenize(proposal.title),
+    fields: [
+      field(KEYWORD_WEIGHT, proposal.keywords.join(" , ")),
+      field(TITLE_WEIGHT, proposal.title),
+      field(SUMMARY_WEIGHT, proposal.summary),
+      field(BODY_WEIGHT, proposal.introduction ?? "")
+    ]
+  };
+}
+
+/**
+ * Score a proposal: each query word at its best field, scaled by how many words matched
+ */
+function scoreProposal(indexed: IndexedProposal, words: string[], phrases: string[]): number {
+  let total = 0;
+  let matched = 0;
+
+  for (const word of words) {
+    let best = 0;
+    for (const field of indexed.fields) {
+      best = Math.max(best, field.weight * matchWord(word, field.tokens));
+    }
+    if (best > 0) {
+      total += best;
+      matched++;
+    }
+  }
+  if (matched === 0) {
+    return 0;
+  }
+
+  // "typed throws in closures": proposals matching every word beat ones matching a common word
+  const coverage = matched / words.length;
+  let score = total * coverage * coverage;
+
+  // fields[0] and fields[1] are the keywords and title
+  for (const phrase of phrases) {
+    if (indexed.fields.slice(0, 2).some(f => f.text.includes(` ${phrase} `))) {
+      score += PHRASE_BONUS;
+    }
+  }
+  if (indexed.title.length === words.length && indexed.title.every((w, i) => w === words[i])) {
+    score += TITLE_BONUS;
+  }
+  return score;
+}
+
+/**
+ * Adjacent word pairs of the query, skipping pairs with a stop word ("typed throws" from "typed throws in closures")
+ */
+function getPhrases(query: string): string[] {
+  const words = normalizePhrase(query).split(" ");
+  const phrases: string[] = [];
+  for (let i = 0; i + 1 < words.length; i++) {
+    if (!STOP_WORDS.has(words[i]) && !STOP_WORDS.has(words[i + 1])) {
+      phrases.push(`${words[i]} ${words[i + 1]}`);
+    }
+  }
+  return phrases;
+}
+
+/**
+ * Credit for a query word against a field's words: exact stem, prefix or typo
+ */
+function matchWord(word: string, tokens: Set<string>): number {
+  if (tokens.has(word)) {
+    return 1;
+  }
+
+  let credit = 0;
+  for (const token of tokens) {
+    if (word.length >= 4 && token.startsWith(word)) {
+      credit = Math.max(credit, PREFIX_CREDIT);
+    } else if (word.length >= 5 && token.length >= 5) {
+      const allowed = word.length >= 8 ? 2 : 1;
+      if (levenshtein(word, token) <= allowed) {
+        credit = Math.max(credit, TYPO_CREDIT);
+      }
+    }
+  }
+  return credit;
+}
+
+/**
+ * Split text into stemmed words, dropping stop words
+ */
+function tokenize(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 0 && !STOP_WORDS.has(w))
+    .map(stem);
+}
+
+/**
+ * Lowercased text with punctuation collapsed, for phrase matching
+ */
+function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+/**
+ * Reduce a word to a rough stem so "throws", "throwing" and "thrown" meet
+ */
+function stem(word: string): string {
+  if (word.length <= 3) {
+    return word;
+  }
+
+  let stemmed = word;
+  if (stemmed.endsWith("ies")) {
+    stemmed = `${stemmed.slice(0, -3)}y`;
+  } else if (stemmed.endsWith("s") && !stemmed.endsWith("ss")) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  for (const suffix of ["ing", "ed", "n"]) {
+    // "n" only ends participles like "thrown"
+    if (suffix === "n" && !stemmed.endsWith("wn")) continue;
+    if (stemmed.endsWith(suffix) && stemmed.length - suffix.length >= 3) {
+      stemmed = stemmed.slice(0, -suffix.length);
+      break;
+    }
+  }
+
+  return stemmed.endsWith("e") && stemmed.length > 3 ? stemmed.slice(0, -1) : stemmed;
+}
@@ -0,0 +1,356 @@
+/**
+ * Swift Evolution Database
+ *
+ * Loads every proposal from a local swift-evolution clone when one is
+ * configured, or the official metadata feed (cached on disk and refreshed
+ * on a schedule), with a bundled snapshot for offline use and curated
+ * search keywords and proposal relationships layered on top.
+ */
+
+import { compareVersions } from "./availability.js";
+import { EVOLUTION_FEED_URL, EVOLUTION_REFRESH_MS } from "./config.js";
+import { fetchJSONWithCache } from "./doc-cache.js";
+import { LocalProposal, readLocalProposals } from "./evolution-repo.js";
+import { EVOLUTION_SNAPSHOT } from "./evolution-snapshot.js";
+import { extractRelations, linkProposals } from "./proposal-graph.js";
+
+export type ProposalStatus =
+  | "implemented"
+  | "accepted"
+  | "previewing"
+  | "active-review"
+  | "scheduled"
+  | "awaiting-review"
+  | "returned"
+  | "rejected"
+  | "withdrawn";
+
+export type ProposalRelationKind =
+  | "supersedes"
+  | "superseded-by"
+  | "amends"
+  | "amended-by"
+  | "previous-revision"
+  | "next-revision"
+  | "related";
+
+export interface ProposalRelation {
+  kind: ProposalRelationKind;
+  id: string;
+}
+
+export interface SwiftEvolutionProposal {
+  id: string;
+  title: string;
+  status: ProposalStatus;
+  swiftVersion?: string;
+  summary: string;
+  link: string;
+  keywords: string[];
+  authors?: string[];
+  reviewManagers?: string[];
+  implementation?: string[];
+  upcomingFeatureFlag?: {
+    flag: string;
+    enabledInLanguageMode?: string;
+  };
+  experimentalFeatureFlag?: string;
+  previousRevisions?: string[];
+  relations?: ProposalRelation[];
+  introduction?: string;
+}
+
+export interface ProposalDatabase {
+  proposals: SwiftEvolutionProposal[];
+  source: "local" | "feed" | "snapshot";
+}
+
+interface EvolutionFeed {
+  proposals?: FeedProposal[];
+}
+
+interface FeedProposal {
+  id: string;
+  title: string;
+  summary?: string;
+  link?: string;
+  status?: { state?: string; version?: string };
+  authors?: Array<{ name: string }>;
+  reviewManagers?: Array<{ name: string }>;
+  implementation?: Array<{ account: string; repository: string; type: string; id: string }>;
+  upcomingFeatureFlag?: { flag: string; enabledInLanguageMode?: string };
+  previousProposalIDs?: string[];
+}
+
+// Proposal documents on GitHub; the feed's links are file names in this directory
+const PROPOSALS_URL = "https://github.com/swiftlang/swift-evolution/blob/main/proposals";
+
+// Feed states (v1 camelCase, ".implemented" in the legacy feed) and header
+// statuses ("Accepted with revisions"), lowercased with non-letters removed
+const FEED_STATES: Record<string, ProposalStatus> = {
+  "implemented": "implemented",
+  "accepted": "accepted",
+  "acceptedwithrevisions": "accepted",
+  "awaitingimplementation": "accepted",
+  "previewing": "previewing",
+  "activereview": "active-review",
+  "scheduledforreview": "scheduled",
+  "awaitingreview": "awaiting-review",
+  "returnedforrevision": "returned",
+  "rejected": "rejected",
+  "withdrawn": "withdrawn"
+};
+
+// Curated search keywords, layered over the synced proposals
+const PROPOSAL_KEYWORDS: Record<string, string[]> = {
+  "SE-0423": ["actor", "isolation", "concurrency", "dynamic"],
+  "SE-0420": ["actor", "isolation", "inheritance", "class"],
+  "SE-0414": ["region", "isolation", "sendable", "concurrency"],
+  "SE-0411": ["default", "parameter", "actor", "isolation"],
+  "SE-0412": ["global", "static", "concurrency", "sendable", "strict", "nonisolated", "unsafe"],
+  "SE-0401": ["property wrapper", "actor", "isolation", "inference"],
+  "SE-0395": ["@observable", "observable", "observation", "macro", "swiftui"],
+  "SE-0394": ["macro", "package", "spm", "swiftpm"],
+  "SE-0392": ["actor", "executor", "custom", "concurrency"],
+  "SE-0389": ["macro", "attached", "declaration", "codegen"],
+  "SE-0382": ["macro", "expression", "#", "freestanding"],
+  "SE-0380": ["if", "switch", "expression", "return"],
+  "SE-0393": ["parameter pack", "variadic", "generic", "each", "repeat"],
+  "SE-0390": ["noncopyable", "~copyable", "move", "consume", "ownership"],
+  "SE-0352": ["existential", "any", "protocol", "generic", "open"],
+  "SE-0309": ["existential", "any", "protocol", "self", "associated type"],
+  "SE-0345": ["if let", "optional", "unwrap", "shorthand", "shadow"],
+  "SE-0326": ["closure", "inference", "multi-statement", "type"],
+  "SE-0413": ["throws", "typed throws", "error", "throwing", "typed"],
+  "SE-0377": ["borrowing", "consuming", "ownership", "parameter", "move"]
+};
+
+// Curated relationships the feed doesn't record; inverse edges are added on load
+const PROPOSAL_RELATIONS: Record<string, ProposalRelation[]> = {
+  "SE-0461": [{ kind: "amends", id: "SE-0338" }],
+  "SE-0434": [{ kind: "related", id: "SE-0316" }],
+  "SE-0430": [{ kind: "related", id: "SE-0414" }],
+  "SE-0427": [{ kind: "amends", id: "SE-0390" }],
+  "SE-0432": [{ kind: "related", id: "SE-0390" }],
+  "SE-0424": [{ kind: "related", id: "SE-0392" }],
+  "SE-0423": [{ kind: "related", id: "SE-0412" }, { kind: "related", id: "SE-0337" }],
+  "SE-0420": [{ kind: "related", id: "SE-0313" }],
+  "SE-0418": [{ kind: "related", id: "SE-0302" }],
+  "SE-0412": [{ kind: "related", id: "SE-0337" }],
+  "SE-0408": [{ kind: "related", id: "SE-0393" }],
+  "SE-0407": [{ kind: "amends", id: "SE-0389" }],
+  "SE-0402": [{ kind: "amends", id: "SE-0389" }],
+  "SE-0401": [{ kind: "amends", id: "SE-0316" }],
+  "SE-0399": [{ kind: "related", id: "SE-0393" }],
+  "SE-0398": [{ kind: "related", id: "SE-0393" }],
+  "SE-0397": [{ kind: "related", id: "SE-0382" }, { kind: "related", id: "SE-0389" }],
+  "SE-0394": [{ kind: "related", id: "SE-0382" }],
+  "SE-0389": [{ kind: "related", id: "SE-0382" }],
+  "SE-0375": [{ kind: "amends", id: "SE-0352" }],
+  "SE-0352": [{ kind: "related", id: "SE-0309" }],
+  "SE-0335": [{ kind: "related", id: "SE-0309" }],
+  "SE-0444": [{ kind: "related", id: "SE-0409" }],
+  "SE-0313": [{ kind: "related", id: "SE-0306" }],
+  "SE-0317": [{ kind: "related", id: "SE-0296" }],
+  "SE-0304": [{ kind: "related", id: "SE-0296" }]
+};
+
+let database: (ProposalDatabase & { loadedAt: number }) | null = null;
+let loading: Promise<ProposalDatabase> | null = null;
+
+/**
+ * Load the proposal database
+ *
+ * Once loaded, the current copy is served while the feed is refreshed in
+ * the background: on schedule, or on every call while on the snapshot.
+ */
+export async function loadProposals(): Promise<ProposalDatabase> {
+  if (database) {
+    if (database.source === "snapshot" || Date.now() - database.loadedAt >= EVOLUTION_REFRESH_MS) {
+      // A failed refresh keeps serving the current database
+      refreshProposals().catch(() => {});
+    }
+    return database;
+  }
+  return refreshProposals();
+}
+
+/**
+ * Normalize a Swift version as written by a caller ("Swift 6" -> "6.0", "next" -> "Next")
+ *
+ * Returns undefined for anything that isn't a dotted version or "Next".
+ */
+export function normalizeSwiftVersion(value: string): string | undefined {
+  const version = value.trim().replace(/^swift\s*/i, "");
+  if (/^next$/i.test(version)) {
+    return "Next";
+  }
+  if (!/^\d+(?:\.\d+)*$/.test(version)) {
+    return undefined;
+  }
+  return version.includes(".") ? version : `${version}.0`;
+}
+
+/**
+ * Compare Swift versions numerically, patch included ("5.10" > "5.9", "6.0.3" > "6.0")
+ *
+ * "Next" is implemented but unreleased, so it sorts after every release.
+ */
+export function compareSwiftVersions(a: string, b: string): number {
+  const aIsNext = /^next$/i.test(a.trim());
+  const bIsNext = /^next$/i.test(b.trim());
+  if (aIsNext || bIsNext) {
+    return Number(aIsNext) - Number(bIsNext);
+  }
+  return compareVersions(a, b);
+}
+
+/**
+ * Reload the feed through the disk cache, sharing any load already in flight
+ */
+function refreshProposals(): Promise<ProposalDatabase> {
+  if (!loading) {
+    loading = readFeed()
+      .then(loaded => {
+        // A failed refresh keeps the data already loaded
+        if (loaded.source !== "snapshot" || database?.source !== "feed") {
+          database = { ...loaded, loadedAt: Date.now() };
+        }
+        return database ?? loaded;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+/**
+ * Read the local clone or the feed, falling back to the bundled snapshot
+ */
+async function readFeed(): Promise<ProposalDatabase> {
+  const local = await readLocalProposals();
+  if (local && local.length > 0) {
+    return { proposals: linkProposals(local.map(parseLocalProposal).map(withCuration)), source: "local" };
+  }
+
+  const feed = await fetchJSONWithCache<EvolutionFeed | FeedProposal[]>(
+    EVOLUTION_FEED_URL,
+    "swift-evolution/feed",
+    undefined,
+    EVOLUTION_REFRESH_MS
+  );
+  // The legacy feed is a bare array; v1 wraps it with metadata
+  const feedProposals = (Array.isArray(feed) ? feed : feed?.proposals)?.filter(isFeedProposal);
+
+  if (!feedProposals || feedProposals.length === 0) {
+    return { proposals: linkProposals(EVOLUTION_SNAPSHOT.map(withCuration)), source: "snapshot" };
+  }
+
+  return { proposals: linkProposals(feedProposals.map(parseFeedProposal).map(withCuration)), source: "feed" };
+}
+
+/**
+ * Whether a feed entry has the id and title every proposal record needs
+ */
+function isFeedProposal(entry: unknown): entry is FeedProposal {
+  const candidate = entry as Partial<FeedProposal> | null;
+  return typeof candidate?.id === "string" && candidate.id.trim() !== ""
+    && typeof candidate.title === "string" && candidate.title.trim() !== "";
+}
+
+/**
+ * Convert a feed entry into a proposal record
+ */
+function parseFeedProposal(entry: FeedProposal): Omit<SwiftEvolutionProposal, "keywords"> {
+  const version = entry.status?.version?.trim();
+  const implementation = (entry.implementation ?? []).map(i => `${i.account}/${i.repository}#${i.id}`);
+  const relations = mergeRelations(
+    (entry.previousProposalIDs ?? []).map(id => ({ kind: "previous-revision" as const, id })),
+    extractRelations(entry.id, entry.summary ?? "")
+  );
+
+  return {
+    id: entry.id,
+    title: entry.title.trim(),
+    status: parseState(entry.status?.state ?? ""),
+    ...(version ? { swiftVersion: version } : {}),
+    summary: collapseWhitespace(entry.summary ?? ""),
+    link: entry.link ? `${PROPOSALS_URL}/${entry.link}` : PROPOSALS_URL,
+    ...(entry.authors?.length ? { authors: entry.authors.map(a => a.name) } : {}),
+    ...(entry.reviewManagers?.length ? { reviewManagers: entry.reviewManagers.map(m => m.name) } : {}),
+    ...(implementation.length ? { implementation } : {}),
+    ...(entry.upcomingFeatureFlag?.flag ? { upcomingFeatureFlag: entry.upcomingFeatureFlag } : {}),
+    ...(relations.length ? { relations } : {})
+  };
+}
+
+/**
+ * Convert a proposal parsed from the local clone into a proposal record
+ */
+function parseLocalProposal(entry: LocalProposal): Omit<SwiftEvolutionProposal, "keywords"> {
+  // "Implemented (Swift 6.0)", "Active review (March 4...March 18, 2024)"
+  const version = entry.status.match(/Swift (\d+(?:\.\d+)*|Next)/i)?.[1];
+  const introduction = entry.introduction.trim();
+  const relations = mergeRelations(
+    entry.previousProposals.map(id => ({ kind: "previous-revision" as const, id })),
+    extractRelations(entry.id, `${entry.status}\n${introduction}`)
+  );
+
+  return {
+    id: entry.id,
+    title: entry.title,
+    status: parseState(entry.status.replace(/\(.*$/, "")),
+    ...(version ? { swiftVersion: version } : {}),
+    summary: collapseWhitespace(introduction.split(/\n\s*\n/)[0] ?? ""),
+    link: `${PROPOSALS_URL}/${entry.fileName}`,
+    ...(entry.authors.length ? { authors: entry.authors } : {}),
+    ...(entry.reviewManagers.length ? { reviewManagers: entry.reviewManagers } : {}),
+    ...(entry.implementation.length ? { implementation: entry.implementation } : {}),
+    ...(entry.upcomingFeatureFlag ? { upcomingFeatureFlag: entry.upcomingFeatureFlag } : {}),
+    ...(entry.experimentalFeatureFlag ? { experimentalFeatureFlag: entry.experimentalFeatureFlag } : {}),
+    ...(entry.previousRevisions.length ? { previousRevisions: entry.previousRevisions } : {}),
+    ...(relations.length ? { relations } : {}),
+    ...(introduction ? { introduction } : {})
+  };
+}
+
+/**
+ * Map a feed state (".activeReview") or header status ("Active review") to a status
+ */
+function parseState(state: string): ProposalStatus {
+  return FEED_STATES[state.toLowerCase().replace(/[^a-z]/g, "")] ?? "awaiting-review";
+}
+
+/**
+ * Collapse runs of whitespace, including line breaks, into single spaces
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Combine relation lists, one edge per proposal; the first specific edge beats "related"
+ */
+function mergeRelations(...lists: ProposalRelation[][]): ProposalRelation[] {
+  const merged = new Map<string, ProposalRelation>();
+  for (const relation of lists.flat()) {
+    const existing = merged.get(relation.id);
+    if (!existing || (existing.kind === "related" && relation.kind !== "related")) {
+      merged.set(relation.id, relation);
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Layer the curated keywords and relations onto a proposal
+ */
+function withCuration(proposal: Omit<SwiftEvolutionProposal, "keywords">): SwiftEvolutionProposal {
+  const relations = mergeRelations(proposal.relations ?? [], PROPOSAL_RELATIONS[proposal.id] ?? []);
+  return {
+    ...proposal,
+    keywords: PROPOSAL_KEYWORDS[proposal.id] ?? [],
+    ...(relations.length ? { relations } : {})
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * Swift Source Text
+ *
+ * Helpers for pattern-matching Swift source without being fooled by
+ * comments and string literals.
+ */
+
+// Opening delimiters, matched at a position with lastIndex
+const STRING_START = /(#*)("""|")/y;
+const REGEX_START = /(#+)\//y;
+
+/**
+ * Blank out comments and the contents of string and regex literals
+ *
+ * Delimiters are kept and every masked character becomes a space, so
+ * offsets and line numbers still point at the original source.
+ */
+export function maskCommentsAndStrings(source: string): string {
+  const out = source.split("");
+  const blank = (from: number, to: number) => {
+    for (let i = from; i < to && i < out.length; i++) {
+      if (out[i] !== "\n") out[i] = " ";
+    }
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    // Line comment
+    if (source.startsWith("//", i)) {
+      const end = source.indexOf("\n", i);
+      const stop = end === -1 ? source.length : end;
+      blank(i, stop);
+      i = stop;
+      continue;
+    }
+
+    // Block comment; Swift's nest
+    if (source.startsWith("/*", i)) {
+      const end = skipBlockComment(source, i);
+      blank(i, end);
+      i = end;
+      continue;
+    }
+
+    // String literal: "...", """...""", with any number of raw-string #s
+    STRING_START.lastIndex = i;
+    const string = STRING_START.exec(source);
+    if (string) {
+      const start = i + string[0].length;
+      const end = skipString(source, start, string[2], string[1]);
+      const closing = source.startsWith(`${string[2]}${string[1]}`, end) ? string[0].length : 0;
+      blank(start, end);
+      i = end + closing;
+      continue;
+    }
+
+    // Extended regex literal: #/.../#
+    REGEX_START.lastIndex = i;
+    const regex = REGEX_START.exec(source);
+    if (regex) {
+      const start = i + regex[0].length;
+      const end = source.indexOf(`/${regex[1]}`, start);
+      const stop = end === -1 ? source.length : end;
+      blank(start, stop);
+      i = end === -1 ? stop : stop + regex[0].length;
+      continue;
+    }
+
+    i++;
+  }
+
+  return out.join("");
+}
+
+/**
+ * Build a lookup from offset to 1-based line number
+ */
+export function createLineLocator(source: string): (offset: number) => number {
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source.charCodeAt(i) === 10) lineStarts.push(i + 1);
+  }
+
+  return offset => {
+    // Last line start at or before the offset
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid; else high = mid - 1;
+    }
+    return low + 1;
+  };
+}
+
+/**
+ * Offset just past a (possibly nested) block comment
+ */
+function skipBlockComment(source: string, from: number): number {
+  let depth = 0;
+  let i = from;
+  while (i < source.length) {
+    if (source.startsWith("/*", i)) {
+      depth++;
+      i += 2;
+    } else if (source.startsWith("*/", i)) {
+      depth--;
+      i += 2;
+      if (depth === 0) return i;
+    } else {
+      i++;
+    }
+  }
+  return source.length;
+}
+
+/**
+ * Offset of a string literal's closing delimiter, stepping over escapes and interpolations
+ *
+ * Single-line strings stop at the end of the line if they're unterminated.
+ */
+function skipString(source: string, from: number, quote: string, hashes: string): number {
+  const closing = `${quote}${hashes}`;
+  const escape = `\\${hashes}`;
+  let i = from;
+
+  while (i < source.length) {
+    if (source.startsWith(closing, i)) {
+      return i;
+    }
+    if (quote === "\"" && source[i] === "\n") {
+      return i;
+    }
+    if (source.startsWith(escape, i)) {
+      i += escape.length;
+      // Interpolation: \( ... ) may itself contain strings and parentheses
+      if (source[i] === "(") {
+        i = skipInterpolation(source, i);
+      } else {
+        i++;
+      }
+      continue;
+    }
+    i++;
+  }
+
+  return source.length;
+}
+
+/**
+ * Offset just past the parenthesized expression of an interpolation
+ */
+function skipInterpolation(source: string, from: number): number {
+  let depth = 0;
+  let i = from;
+
+  while (i < source.length) {
+    STRING_START.lastIndex = i;
+    const string = STRING_START.exec(source);
+    if (string) {
+      const end = skipString(source, i + string[0].length, string[2], string[1]);
+      i = end + `${string[2]}${string[1]}`.length;
+      continue;
+    }
+    if (source[i] === "(") {
+      depth++;
+    } else if (source[i] === ")") {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+    i++;
+  }
+
+  return source.length;
+}
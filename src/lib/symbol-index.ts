@@ -0,0 +1,326 @@
+/**
+ * Apple Documentation Symbol Index
+ *
+ * Builds a searchable index of symbols from each framework's DocC
+ * navigator index and caches it on disk.
+ */
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { APPLE_DEVELOPER_BASE_URL, CACHE_DIR, OFFLINE } from "./config.js";
+import { REQUEST_HEADERS } from "./doc-cache.js";
+import { fetchWithRetry } from "./http.js";
+
+export interface SymbolIndexEntry {
+  title: string;
+  qualifiedName: string;
+  path: string;
+  kind: string;
+  framework: string;
+  beta?: boolean;
+  deprecated?: boolean;
+  /** Label of a local documentation source; absent for Apple's docs */
+  source?: string;
+}
+
+export interface SymbolMatch {
+  entry: SymbolIndexEntry;
+  score: number;
+  matchType: "exact" | "case-insensitive" | "name" | "signature" | "fuzzy";
+}
+
+interface NavigatorNode {
+  title?: string;
+  path?: string;
+  type?: string;
+  beta?: boolean;
+  deprecated?: boolean;
+  children?: NavigatorNode[];
+}
+
+interface NavigatorIndexJSON {
+  interfaceLanguages?: Record<string, NavigatorNode[]>;
+}
+
+interface CachedIndex {
+  version?: number;
+  fetchedAt: number;
+  entries: SymbolIndexEntry[];
+}
+
+// DocC navigator index base
+const APPLE_INDEX_API = `${APPLE_DEVELOPER_BASE_URL}/tutorials/data/index`;
+
+// Rebuild indexes older than a week
+const INDEX_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Bumped when the cached entry format changes; older caches are rebuilt
+const INDEX_VERSION = 2;
+
+// Node types that are not symbols and never appear in qualified names
+const NON_SYMBOL_TYPES = new Set(["module", "groupMarker", "article", "collection", "overview", "tutorial", "sampleCode", "project"]);
+
+// Non-symbol pages that are still indexed, so articles and sample code can be found by title
+const GUIDE_KINDS = new Set(["article", "sampleCode"]);
+
+// Node types that declare a type rather than a member
+const TYPE_KINDS = new Set(["struct", "class", "protocol", "enum", "actor", "typealias", "macro"]);
+
+// Shared in-flight loads so concurrent lookups download each index once
+const memoryCache = new Map<string, Promise<SymbolIndexEntry[]>>();
+
+/**
+ * Load the symbol index for a framework, using the on-disk cache when fresh
+ */
+export function loadSymbolIndex(framework: string): Promise<SymbolIndexEntry[]> {
+  const slug = framework.toLowerCase();
+  let entries = memoryCache.get(slug);
+  if (!entries) {
+    entries = readOrBuildIndex(slug);
+    memoryCache.set(slug, entries);
+    // Let a failed load be retried on the next query
+    entries.then(loaded => {
+      if (loaded.length === 0) memoryCache.delete(slug);
+    });
+  }
+  return entries;
+}
+
+/**
+ * Load and merge the symbol indexes for several frameworks
+ */
+export async function loadSymbolIndexes(frameworks: string[]): Promise<SymbolIndexEntry[]> {
+  const indexes = await Promise.all(frameworks.map(fw => loadSymbolIndex(fw)));
+  return indexes.flat();
+}
+
+/**
+ * Read a framework's index from disk, or rebuild it from the navigator index
+ */
+async function readOrBuildIndex(slug: string): Promise<SymbolIndexEntry[]> {
+  const cacheFile = path.join(CACHE_DIR, "symbol-index", `${slug}.json`);
+  const cached = await readCachedIndex(cacheFile);
+  const current = cached?.version === INDEX_VERSION;
+  if (cached && (OFFLINE || (current && Date.now() - cached.fetchedAt < INDEX_TTL_MS))) {
+    return cached.entries;
+  }
+  if (OFFLINE) {
+    return [];
+  }
+
+  const entries = await fetchNavigatorIndex(slug);
+  if (!entries) {
+    // Serve a stale index rather than nothing
+    return cached?.entries ?? [];
+  }
+
+  await writeCachedIndex(cacheFile, { version: INDEX_VERSION, fetchedAt: Date.now(), entries });
+  return entries;
+}
+
+/**
+ * Whether an entry is an article or sample code project rather than a symbol
+ */
+export function isGuideEntry(entry: SymbolIndexEntry): boolean {
+  return GUIDE_KINDS.has(entry.kind);
+}
+
+/**
+ * Search the index by exact name, case-insensitive name, signature or fuzzy match
+ */
+export function searchSymbolIndex(
+  entries: SymbolIndexEntry[],
+  query: string,
+  limit: number = 10
+): SymbolMatch[] {
+  const trimmed = query.trim().replace(/^@/, "");
+  const lowered = trimmed.toLowerCase();
+  const querySignature = splitSignature(lowered);
+  const matches: SymbolMatch[] = [];
+
+  for (const entry of entries) {
+    const match = scoreEntry(entry, trimmed, lowered, querySignature);
+    if (match) {
+      matches.push(match);
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.entry.qualifiedName.length - b.entry.qualifiedName.length)
+    .slice(0, limit);
+}
+
+/**
+ * Whether the best match is tied with another candidate
+ */
+export function isAmbiguous(matches: SymbolMatch[]): boolean {
+  return matches.length > 1 && matches[0].score === matches[1].score;
+}
+
+/**
+ * Score a single index entry against the query
+ */
+function scoreEntry(
+  entry: SymbolIndexEntry,
+  query: string,
+  lowered: string,
+  querySignature: { base: string; labels: string[] | null }
+): SymbolMatch | null {
+  const kindBonus = TYPE_KINDS.has(entry.kind) ? 3 : 0;
+  const names = [entry.title, entry.qualifiedName];
+
+  // A path or disambiguated path component picks one overload ("toolbar(content:)-5w0tj")
+  const isPathQuery = lowered.includes("/") || /-[a-z0-9]+$/.test(lowered);
+  if (names.includes(query) || (isPathQuery && (entry.path === lowered || entry.path.endsWith(`/${lowered}`)))) {
+    return { entry, score: 100 + kindBonus, matchType: "exact" };
+  }
+  if (names.some(n => n.toLowerCase() === lowered)) {
+    return { entry, score: 90 + kindBonus, matchType: "case-insensitive" };
+  }
+
+  const titleSignature = splitSignature(entry.title.toLowerCase());
+  const qualifiedSignature = splitSignature(entry.qualifiedName.toLowerCase());
+
+  // Match on the name without argument labels ("sheet" -> "sheet(isPresented:onDismiss:content:)")
+  if (querySignature.labels === null &&
+      (titleSignature.base === lowered || qualifiedSignature.base === lowered)) {
+    return { entry, score: 80 + kindBonus, matchType: "name" };
+  }
+
+  // Match a signature whose labels are a prefix of the entry's ("data(for:)" -> "data(for:delegate:)")
+  if (querySignature.labels !== null) {
+    for (const signature of [titleSignature, qualifiedSignature]) {
+      if (signature.base === querySignature.base && signature.labels &&
+          querySignature.labels.every((label, i) => signature.labels![i] === label)) {
+        return { entry, score: 70 + kindBonus, matchType: "signature" };
+      }
+    }
+  }
+
+  // Fuzzy match on the base name
+  const base = titleSignature.base;
+  const distance = levenshtein(querySignature.base, base);
+  const threshold = Math.min(3, Math.max(1, Math.floor(querySignature.base.length / 4)));
+  if (distance <= threshold) {
+    return { entry, score: 60 - distance * 5 + kindBonus, matchType: "fuzzy" };
+  }
+  if (lowered.length >= 3 && base.startsWith(lowered)) {
+    return { entry, score: 40 + kindBonus, matchType: "fuzzy" };
+  }
+
+  return null;
+}
+
+/**
+ * Split "name(label:other:)" into its base name and argument labels
+ */
+function splitSignature(name: string): { base: string; labels: string[] | null } {
+  const parenIndex = name.indexOf("(");
+  if (parenIndex === -1) {
+    return { base: name, labels: null };
+  }
+  const labels = name
+    .slice(parenIndex + 1, name.lastIndexOf(")"))
+    .split(":")
+    .map(l => l.trim())
+    .filter(l => l.length > 0);
+  return { base: name.slice(0, parenIndex), labels };
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshtein(a: string, b: string): number {
+  // Lengths this far apart are never close enough to count as a typo
+  if (Math.abs(a.length - b.length) > 3) {
+    return Infinity;
+  }
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Fetch a framework's navigator index and flatten it into entries
+ */
+async function fetchNavigatorIndex(framework: string): Promise<SymbolIndexEntry[] | null> {
+  const url = `${APPLE_INDEX_API}/${framework}`;
+
+  try {
+    const response = await fetchWithRetry(url, { headers: REQUEST_HEADERS }, r => r.json() as Promise<NavigatorIndexJSON>);
+    return response.body ? flattenNavigatorIndex(response.body) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Flatten navigator index nodes into symbol entries, deduplicated by path
+ */
+function flattenNavigatorIndex(json: NavigatorIndexJSON): SymbolIndexEntry[] {
+  const roots = json.interfaceLanguages?.swift ?? [];
+  const entries = new Map<string, SymbolIndexEntry>();
+
+  const visit = (node: NavigatorNode, framework: string, ancestors: NavigatorNode[]) => {
+    const docPath = node.path?.startsWith("/documentation/") ? node.path.slice("/documentation/".length) : undefined;
+    const isGuide = !!node.type && GUIDE_KINDS.has(node.type);
+
+    if (docPath && node.title && node.type && (isGuide || !NON_SYMBOL_TYPES.has(node.type)) && !entries.has(docPath)) {
+      // Only ancestors whose path contains this node are part of its qualified name
+      const owners = ancestors.filter(a =>
+        a.type && !NON_SYMBOL_TYPES.has(a.type) && a.path && node.path!.startsWith(`${a.path}/`)
+      );
+      entries.set(docPath, {
+        title: node.title,
+        qualifiedName: isGuide ? node.title : [...owners.map(o => o.title), node.title].join("."),
+        path: docPath,
+        kind: node.type,
+        framework,
+        ...(node.beta ? { beta: true } : {}),
+        ...(node.deprecated ? { deprecated: true } : {})
+      });
+    }
+
+    for (const child of node.children ?? []) {
+      visit(child, framework, [...ancestors, node]);
+    }
+  };
+
+  for (const root of roots) {
+    visit(root, root.title || "", []);
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Read a cached index from disk
+ */
+async function readCachedIndex(file: string): Promise<CachedIndex | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as CachedIndex;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write an index to the disk cache, ignoring failures
+ */
+async function writeCachedIndex(file: string, index: CachedIndex): Promise<void> {
+  try {
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, JSON.stringify(index));
+  } catch {
+    // Caching is best-effort
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Tool Output
+ *
+ * Pairs a tool's Markdown answer with structured data and builds the
+ * MCP result for the requested output format.
+ */
+
+export type OutputFormat = "markdown" | "json" | "both";
+
+export interface ToolOutput<T> {
+  markdown: string;
+  data: T;
+}
+
+/**
+ * Build an MCP tool result; structured content is always attached
+ */
+export function toToolResult<T extends object>(output: ToolOutput<T>, format: string = "markdown") {
+  const json = JSON.stringify(output.data, null, 2);
+  const content: Array<{ type: "text"; text: string }> = [];
+
+  switch (parseOutputFormat(format)) {
+    case "json":
+      content.push({ type: "text", text: json });
+      break;
+    case "both":
+      content.push({ type: "text", text: output.markdown });
+      content.push({ type: "text", text: json });
+      break;
+    default:
+      content.push({ type: "text", text: output.markdown });
+  }
+
+  return {
+    content,
+    structuredContent: output.data as Record<string, unknown>
+  };
+}
+
+/**
+ * Parse a format argument, defaulting to Markdown
+ */
+function parseOutputFormat(format: string): OutputFormat {
+  const normalized = format.toLowerCase();
+  return normalized === "json" || normalized === "both" ? normalized : "markdown";
+}
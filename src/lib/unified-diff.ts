@@ -0,0 +1,119 @@
+/**
+ * Unified Diff
+ *
+ * Line-based diffs in the unified format used by git and patch.
+ */
+
+interface DiffLine {
+  kind: " " | "-" | "+";
+  text: string;
+}
+
+// Past this many line pairs the middle of the diff is shown as one replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Unified diff between two texts; empty when they're the same
+ */
+export function createUnifiedDiff(
+  before: string,
+  after: string,
+  fromFile: string = "a",
+  toFile: string = "b",
+  context: number = 3
+): string {
+  // A final newline ends the last line rather than starting an empty one
+  const split = (text: string) => text.replace(/\n$/, "").split("\n");
+  const lines = diffLines(split(before), split(after));
+  const changed = lines.flatMap((line, i) => line.kind === " " ? [] : [i]);
+  if (changed.length === 0) {
+    return "";
+  }
+
+  let output = `--- ${fromFile}\n+++ ${toFile}\n`;
+
+  // Changes closer than two contexts apart share a hunk
+  let first = 0;
+  while (first < changed.length) {
+    let last = first;
+    while (last + 1 < changed.length && changed[last + 1] - changed[last] <= context * 2 + 1) {
+      last++;
+    }
+
+    const start = Math.max(0, changed[first] - context);
+    const end = Math.min(lines.length, changed[last] + context + 1);
+    const oldBefore = lines.slice(0, start).filter(l => l.kind !== "+").length;
+    const newBefore = lines.slice(0, start).filter(l => l.kind !== "-").length;
+    const hunk = lines.slice(start, end);
+    const oldCount = hunk.filter(l => l.kind !== "+").length;
+    const newCount = hunk.filter(l => l.kind !== "-").length;
+
+    // An empty side is numbered from the line before it
+    output += `@@ -${oldBefore + (oldCount > 0 ? 1 : 0)},${oldCount} +${newBefore + (newCount > 0 ? 1 : 0)},${newCount} @@\n`;
+    for (const line of hunk) {
+      output += `${line.kind}${line.text}\n`;
+    }
+
+    first = last + 1;
+  }
+
+  return output;
+}
+
+/**
+ * Align two line lists by their longest common subsequence
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+
+  const left = a.slice(prefix, a.length - suffix);
+  const right = b.slice(prefix, b.length - suffix);
+  const head = a.slice(0, prefix).map(text => ({ kind: " " as const, text }));
+  const tail = a.slice(a.length - suffix).map(text => ({ kind: " " as const, text }));
+
+  if ((left.length + 1) * (right.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...left.map(text => ({ kind: "-" as const, text })),
+      ...right.map(text => ({ kind: "+" as const, text })),
+      ...tail
+    ];
+  }
+
+  // lengths[i * width + j]: LCS of left[i..] and right[j..]
+  const width = right.length + 1;
+  const lengths = new Uint32Array((left.length + 1) * width);
+  for (let i = left.length - 1; i >= 0; i--) {
+    for (let j = right.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = left[i] === right[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      middle.push({ kind: " ", text: left[i] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      middle.push({ kind: "-", text: left[i++] });
+    } else {
+      middle.push({ kind: "+", text: right[j++] });
+    }
+  }
+  while (i < left.length) middle.push({ kind: "-", text: left[i++] });
+  while (j < right.length) middle.push({ kind: "+", text: right[j++] });
+
+  return [...head, ...middle, ...tail];
+}
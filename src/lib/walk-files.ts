@@ -0,0 +1,60 @@
+/**
+ * Directory Walking
+ *
+ * Lists the files with one extension under a directory, in a stable
+ * order and with a cap so a huge tree can't stall the server.
+ */
+
+import { readdir } from "node:fs/promises";
+import path from "node:path";
+
+export interface WalkOptions {
+  /** Extension of the files to list, with its dot (".swift") */
+  extension: string;
+  /** Stop once this many files are found */
+  maxFiles?: number;
+  /** Directory names not to descend into; hidden directories are always skipped */
+  skipDirectories?: ReadonlySet<string>;
+}
+
+/**
+ * Files under a directory with the given extension, depth first in name order
+ *
+ * Hidden files and directories are skipped, as are directories that can't be read.
+ */
+export async function walkFiles(dir: string, options: WalkOptions): Promise<string[]> {
+  const found: string[] = [];
+  await walk(dir, options, found);
+  return found;
+}
+
+/**
+ * Walk one directory in name order, descending into subdirectories as they come
+ */
+async function walk(dir: string, options: WalkOptions, found: string[]): Promise<void> {
+  const maxFiles = options.maxFiles ?? Infinity;
+  if (found.length >= maxFiles) {
+    return;
+  }
+
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return;
+  }
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (found.length >= maxFiles) return;
+    if (entry.name.startsWith(".")) continue;
+
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!options.skipDirectories?.has(entry.name)) {
+        await walk(full, options, found);
+      }
+    } else if (entry.isFile() && entry.name.endsWith(options.extension)) {
+      found.push(full);
+    }
+  }
+}
@@ -0,0 +1,193 @@
+/**
+ * xcresult Issues
+ *
+ * Reads the JSON that `xcrun xcresulttool get --legacy --format json` exports
+ * from an .xcresult bundle, and turns its error, warning and test failure
+ * summaries into located diagnostics.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { DiagnosticLocation, DiagnosticSeverity, mergeDiagnostics, ParsedDiagnostic } from "./build-log-parser.js";
+import { walkFiles } from "./walk-files.js";
+
+// An IssueSummary or TestFailureIssueSummary once its type wrappers are removed
+interface IssueSummary {
+  issueType?: string;
+  message?: string;
+  testCaseName?: string;
+  documentLocationInCreatingWorkspace?: { url?: string };
+}
+
+type IssueSummaries = Record<string, unknown>;
+
+const SUMMARY_SEVERITIES: Record<string, DiagnosticSeverity> = {
+  errorSummaries: "error",
+  warningSummaries: "warning",
+  testFailureSummaries: "error"
+};
+
+// Keep a directory of CI artifacts from stalling the server
+const MAX_FILES = 200;
+const MAX_FILE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Diagnostics from an exported JSON file, or every JSON file under a directory
+ *
+ * Returns null when the path can't be read.
+ */
+export async function readXcresultDiagnostics(target: string): Promise<ParsedDiagnostic[] | null> {
+  const root = path.resolve(target);
+  const info = await stat(root).catch(() => null);
+  if (!info) {
+    return null;
+  }
+
+  const files = info.isDirectory() ? await walkFiles(root, { extension: ".json", maxFiles: MAX_FILES }) : [root];
+  const diagnostics: ParsedDiagnostic[] = [];
+  for (const file of files) {
+    const record = await readRecord(file);
+    if (record !== null) {
+      diagnostics.push(...extractDiagnostics(record));
+    }
+  }
+
+  return mergeDiagnostics(diagnostics);
+}
+
+/**
+ * Issue summaries in one exported record, each reported once
+ */
+function extractDiagnostics(record: unknown): ParsedDiagnostic[] {
+  const diagnostics: ParsedDiagnostic[] = [];
+
+  for (const summaries of findIssueSummaries(record)) {
+    for (const [key, severity] of Object.entries(SUMMARY_SEVERITIES)) {
+      const issues = summaries[key];
+      if (!Array.isArray(issues)) continue;
+
+      for (const issue of issues as IssueSummary[]) {
+        if (!issue.message) continue;
+        diagnostics.push({
+          severity,
+          message: issue.message,
+          ...parseDocumentLocation(issue.documentLocationInCreatingWorkspace?.url),
+          notes: [],
+          excerpt: [],
+          occurrences: 1,
+          ...(key === "testFailureSummaries" && issue.testCaseName ? { testCase: issue.testCaseName } : {})
+        });
+      }
+    }
+  }
+
+  // A build action's issues are repeated on its action result and the invocation
+  return mergeDiagnostics(diagnostics).map(diagnostic => ({ ...diagnostic, occurrences: 1 }));
+}
+
+/**
+ * The issue summaries of an invocation record, its actions, or an exported summary itself
+ */
+function findIssueSummaries(record: unknown): IssueSummaries[] {
+  if (!isRecord(record)) {
+    return [];
+  }
+  if (hasSummaries(record)) {
+    return [record];
+  }
+  if (isRecord(record.issues) && hasSummaries(record.issues)) {
+    return [record.issues];
+  }
+
+  const actions = Array.isArray(record.actions) ? record.actions : [];
+  return actions.flatMap(action => {
+    if (!isRecord(action)) return [];
+    return [action.buildResult, action.actionResult]
+      .map(result => isRecord(result) ? result.issues : undefined)
+      .filter((issues): issues is IssueSummaries => isRecord(issues) && hasSummaries(issues));
+  });
+}
+
+/**
+ * Whether an object holds any of the summary arrays
+ */
+function hasSummaries(record: Record<string, unknown>): boolean {
+  return Object.keys(SUMMARY_SEVERITIES).some(key => Array.isArray(record[key]));
+}
+
+/**
+ * Narrow a JSON value to an object
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * File, line and column from a document location URL
+ *
+ * "file:///App/View.swift#...&StartingColumnNumber=4&StartingLineNumber=11" — numbers are zero-based.
+ */
+function parseDocumentLocation(url: string | undefined): DiagnosticLocation {
+  if (!url) {
+    return {};
+  }
+
+  const [base, fragment = ""] = url.split("#");
+  let file: string;
+  try {
+    file = base.startsWith("file:") ? fileURLToPath(base) : base;
+  } catch {
+    return {};
+  }
+
+  const params = new URLSearchParams(fragment);
+  const line = Number(params.get("StartingLineNumber"));
+  const column = Number(params.get("StartingColumnNumber"));
+  if (!params.has("StartingLineNumber") || !Number.isInteger(line)) {
+    return { file };
+  }
+  return {
+    file,
+    line: line + 1,
+    ...(params.has("StartingColumnNumber") && Number.isInteger(column) ? { column: column + 1 } : {})
+  };
+}
+
+/**
+ * Remove xcresulttool's type wrappers: {"_value": x} becomes x, {"_values": [...]} an array
+ */
+function unwrap(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(unwrap);
+  }
+  if (!isRecord(value)) {
+    return value;
+  }
+  if ("_values" in value) {
+    return unwrap(value._values);
+  }
+  if ("_value" in value) {
+    return value._value;
+  }
+  return Object.fromEntries(
+    Object.entries(value)
+      .filter(([key]) => key !== "_type")
+      .map(([key, child]) => [key, unwrap(child)])
+  );
+}
+
+/**
+ * Read and unwrap one exported record, skipping files that aren't JSON
+ */
+async function readRecord(file: string): Promise<unknown | null> {
+  try {
+    const info = await stat(file);
+    if (info.size > MAX_FILE_BYTES) {
+      return null;
+    }
+    return unwrap(JSON.parse(await readFile(file, "utf8")));
+  } catch {
+    return null;
+  }
+}
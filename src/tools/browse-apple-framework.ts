@@ -0,0 +1,188 @@
+/**
+ * Browse Apple Framework
+ *
+ * Walks the documentation topic tree of a framework or symbol,
+ * listing child topics and relationships page by page.
+ */
+
+import { fetchLiveDoc, FRAMEWORK_PATHS } from "../lib/apple-docs-client.js";
+import {
+  getDocumentationURL,
+  renderInline,
+  renderReferenceLink,
+} from "../lib/docc-renderer.js";
+import { AppleDocJSON, DocReference } from "../lib/docc-types.js";
+
+interface TopicItem {
+  section: string;
+  identifier: string;
+}
+
+const DEFAULT_PAGE_SIZE = 30;
+
+/**
+ * Browse the child topics of a framework or symbol
+ */
+export async function browseAppleFramework(
+  target: string,
+  section?: string,
+  page: number = 1,
+  pageSize: number = DEFAULT_PAGE_SIZE
+): Promise<string> {
+  const docPath = getBrowsePath(target);
+  const doc = await fetchLiveDoc(docPath);
+
+  if (!doc) {
+    return formatNotFound(target);
+  }
+
+  // Flatten topic sections so pagination spans section boundaries
+  const sectionFilter = section?.toLowerCase();
+  const items: TopicItem[] = [];
+  for (const topicSection of doc.topicSections ?? []) {
+    const title = topicSection.title || "Topics";
+    if (sectionFilter && !title.toLowerCase().includes(sectionFilter)) {
+      continue;
+    }
+    for (const identifier of topicSection.identifiers) {
+      items.push({ section: title, identifier });
+    }
+  }
+
+  return formatBrowseResult(doc, docPath, items, section, Math.max(1, Math.floor(page)), Math.max(1, Math.floor(pageSize)));
+}
+
+/**
+ * Turn a framework name, documentation path or URL into a doc path
+ */
+function getBrowsePath(target: string): string {
+  const trimmed = target.trim()
+    .replace(/^https?:\/\/developer\.apple\.com/, "")
+    .replace(/^\/?documentation\//, "")
+    .replace(/^\/+|\/+$/g, "");
+  const lowered = trimmed.toLowerCase();
+
+  if (lowered.includes("/")) {
+    return lowered;
+  }
+  return FRAMEWORK_PATHS[lowered]?.[0] ?? lowered;
+}
+
+/**
+ * Format one page of topics plus the page's relationships
+ */
+function formatBrowseResult(
+  doc: AppleDocJSON,
+  docPath: string,
+  items: TopicItem[],
+  section: string | undefined,
+  page: number,
+  pageSize: number
+): string {
+  const title = doc.metadata?.title || docPath;
+  const roleHeading = doc.metadata?.roleHeading;
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const start = (page - 1) * pageSize;
+  const pageItems = items.slice(start, start + pageSize);
+
+  let output = `# 🗂️ Browse: ${title}\n\n`;
+  if (roleHeading) {
+    output += `**Type:** ${roleHeading}\n`;
+  }
+  output += `**Documentation URL:** ${getDocumentationURL(doc.identifier?.url ?? `/documentation/${docPath}`)}\n`;
+  if (section) {
+    output += `**Section filter:** ${section}\n`;
+  }
+  output += `\n`;
+
+  if (doc.abstract && doc.abstract.length > 0) {
+    output += `${renderInline(doc.abstract, doc)}\n\n`;
+  }
+
+  if (items.length === 0) {
+    output += section
+      ? `> No topic sections matching "${section}".\n\n`
+      : `> This page has no child topics.\n\n`;
+  } else if (pageItems.length === 0) {
+    output += `> Page ${page} is past the end; there are ${pageCount} page(s).\n\n`;
+  } else {
+    output += `## Topics\n\n`;
+    output += `*Showing ${start + 1}–${start + pageItems.length} of ${items.length} (page ${page} of ${pageCount})*\n\n`;
+
+    let currentSection = "";
+    for (const item of pageItems) {
+      if (item.section !== currentSection) {
+        if (currentSection) output += `\n`;
+        output += `### ${item.section}\n\n`;
+        currentSection = item.section;
+      }
+      output += formatTopicItem(item.identifier, doc);
+    }
+    output += `\n`;
+
+    if (page < pageCount) {
+      output += `> More topics available: request page ${page + 1}.\n\n`;
+    }
+  }
+
+  // Relationships are short, so show them once on the first page
+  if (page === 1 && doc.relationshipsSections && doc.relationshipsSections.length > 0) {
+    output += `## Relationships\n\n`;
+    for (const relationship of doc.relationshipsSections) {
+      output += `### ${relationship.title}\n\n`;
+      for (const identifier of relationship.identifiers) {
+        output += formatTopicItem(identifier, doc);
+      }
+      output += `\n`;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Format a child topic with its kind and one-line abstract
+ */
+function formatTopicItem(identifier: string, doc: AppleDocJSON): string {
+  const reference = doc.references?.[identifier];
+  const kind = reference ? getReferenceKind(reference) : "";
+  const abstract = renderInline(reference?.abstract, doc).trim();
+
+  let line = `- ${renderReferenceLink(identifier, doc)}`;
+  if (kind) {
+    line += ` *(${kind})*`;
+  }
+  if (abstract) {
+    line += ` — ${abstract}`;
+  }
+  return `${line}\n`;
+}
+
+/**
+ * Describe what kind of page a reference points to
+ */
+function getReferenceKind(reference: DocReference): string {
+  // Symbol declarations start with their keyword (struct, func, var...)
+  const keyword = reference.fragments?.find(f => f.kind === "keyword")?.text;
+  if (keyword) {
+    return keyword;
+  }
+  if (reference.role === "collectionGroup") {
+    return "group";
+  }
+  return reference.role || reference.kind || "";
+}
+
+/**
+ * Format not found message
+ */
+function formatNotFound(target: string): string {
+  let output = `# Browse: ${target}\n\n`;
+  output += `> ⚠️ Could not find a documentation page for "${target}"\n\n`;
+  output += `## Suggestions\n\n`;
+  output += `1. Use a framework name (e.g., "SwiftUI", "Foundation")\n`;
+  output += `2. Use a documentation path (e.g., "swiftui/view", "foundation/urlsession")\n`;
+  output += `3. Look up the exact symbol with fetch_latest_apple_docs first\n`;
+
+  return output;
+}
@@ -0,0 +1,354 @@
+/**
+ * API Availability Checker
+ *
+ * Checks Apple APIs, listed by name or referenced in Swift source,
+ * against deployment targets and suggests the availability guards needed.
+ */
+
+import {
+  compareVersions,
+  getPlatformAvailability,
+  getSwiftPlatformName,
+  matchesPlatform,
+} from "../lib/availability.js";
+import { getDocumentationURL } from "../lib/docc-renderer.js";
+import { maskCommentsAndStrings } from "../lib/swift-source.js";
+import { fetchEntryDoc, resolveAppleDoc, ResolvedDoc } from "./fetch-apple-docs.js";
+
+interface DeploymentTarget {
+  platform: string;
+  version: string;
+}
+
+interface ApiReference {
+  name: string;
+  line?: number;
+  fromSource: boolean;
+}
+
+interface AvailabilityIssue {
+  platform: string;
+  introducedAt?: string;
+  target: string;
+  reason: "newer" | "unavailable";
+}
+
+interface ApiCheck {
+  api: ApiReference;
+  title?: string;
+  docPath?: string;
+  source?: string;
+  overloaded?: boolean;
+  issues: AvailabilityIssue[];
+}
+
+// Cap on source-derived lookups so a large file doesn't trigger hundreds of fetches
+const MAX_SOURCE_SYMBOLS = 40;
+
+// Skipped source names listed in the truncation warning
+const MAX_LISTED_SKIPPED = 20;
+
+// Lookups run in parallel batches of this size
+const LOOKUP_CONCURRENCY = 6;
+
+// Standard library and language names that aren't worth looking up
+const IGNORED_NAMES = new Set([
+  "String", "Int", "Int8", "Int16", "Int32", "Int64", "UInt", "UInt8", "UInt16", "UInt32", "UInt64",
+  "Double", "Float", "Bool", "Character", "Array", "Dictionary", "Set", "Optional", "Result",
+  "Error", "Void", "Any", "AnyObject", "Self", "Never", "Equatable", "Hashable", "Codable",
+  "Decodable", "Encodable", "Comparable", "Identifiable", "CaseIterable", "Sendable", "Task",
+  "MainActor", "Published", "State", "Binding", "ObservedObject", "StateObject", "Environment",
+  "init", "print", "map", "filter", "reduce", "compactMap", "flatMap", "forEach", "append",
+  "contains", "first", "last", "sorted", "joined", "count", "isEmpty", "remove", "insert"
+]);
+
+/**
+ * Check APIs against deployment targets
+ */
+export async function checkApiAvailability(
+  deploymentTargets: string,
+  symbols?: string[],
+  source?: string,
+  framework?: string
+): Promise<string> {
+  const targets = parseDeploymentTargets(deploymentTargets);
+  if (targets.length === 0) {
+    return formatInvalidTargets(deploymentTargets);
+  }
+
+  const apis: ApiReference[] = (symbols ?? []).map(name => ({ name, fromSource: false }));
+  const references = source ? extractSourceReferences(source) : [];
+  apis.push(...references.slice(0, MAX_SOURCE_SYMBOLS));
+  if (apis.length === 0) {
+    return formatNothingToCheck();
+  }
+
+  const checks: ApiCheck[] = [];
+  for (let i = 0; i < apis.length; i += LOOKUP_CONCURRENCY) {
+    const batch = apis.slice(i, i + LOOKUP_CONCURRENCY);
+    checks.push(...await Promise.all(batch.map(api => checkApi(api, targets, framework))));
+  }
+
+  return formatAvailabilityReport(checks, targets, references.slice(MAX_SOURCE_SYMBOLS));
+}
+
+/**
+ * Parse "iOS 16.0, macOS 13" into deployment targets
+ */
+function parseDeploymentTargets(value: string): DeploymentTarget[] {
+  const targets: DeploymentTarget[] = [];
+  for (const part of value.split(/[,;]/)) {
+    const match = part.trim().match(/^([A-Za-z][A-Za-z ]*?)\s*(\d+(?:\.\d+)*)$/);
+    if (match) {
+      targets.push({ platform: match[1].trim(), version: match[2] });
+    }
+  }
+  return targets;
+}
+
+/**
+ * Find Apple API names referenced in Swift source, with the line of first use
+ */
+function extractSourceReferences(source: string): ApiReference[] {
+  const code = maskCommentsAndStrings(source);
+  const lines = code.split("\n");
+
+  // Types declared in the file are the project's own, not Apple's
+  const declared = new Set<string>();
+  for (const match of code.matchAll(/\b(?:struct|class|enum|protocol|actor|typealias)\s+([A-Za-z_]\w*)/g)) {
+    declared.add(match[1]);
+  }
+  for (const match of code.matchAll(/\bfunc\s+([A-Za-z_]\w*)/g)) {
+    declared.add(match[1]);
+  }
+
+  const references = new Map<string, ApiReference>();
+  const add = (name: string, line: number) => {
+    if (!references.has(name) && !declared.has(name) && !IGNORED_NAMES.has(name)) {
+      references.set(name, { name, line, fromSource: true });
+    }
+  };
+
+  lines.forEach((text, index) => {
+    // Type names and attributes: NavigationStack, @Observable
+    for (const match of text.matchAll(/\b([A-Z][A-Za-z0-9]+)\b/g)) {
+      add(match[1], index + 1);
+    }
+    // Modifiers and member calls: .scrollTargetBehavior(
+    for (const match of text.matchAll(/\.([a-z][A-Za-z0-9]+)\s*[({]/g)) {
+      add(match[1], index + 1);
+    }
+  });
+
+  return [...references.values()];
+}
+
+/**
+ * Resolve one API and compare its availability with each target
+ */
+async function checkApi(
+  api: ApiReference,
+  targets: DeploymentTarget[],
+  framework?: string
+): Promise<ApiCheck> {
+  const resolved = await resolveForCheck(api, framework);
+  if (!resolved) {
+    return { api, issues: [] };
+  }
+
+  const availability = getPlatformAvailability(resolved.doc);
+  const issues: AvailabilityIssue[] = [];
+
+  for (const target of targets) {
+    const platform = availability.find(a => matchesPlatform(a.platform, target.platform));
+    if (!platform) {
+      // Pages without any platform metadata (articles, some macros) can't be judged
+      if (availability.length > 0) {
+        issues.push({ platform: target.platform, target: target.version, reason: "unavailable" });
+      }
+      continue;
+    }
+    if (platform.unavailable) {
+      issues.push({ platform: platform.platform, target: target.version, reason: "unavailable" });
+    } else if (platform.introducedAt && compareVersions(platform.introducedAt, target.version) > 0) {
+      issues.push({ platform: platform.platform, introducedAt: platform.introducedAt, target: target.version, reason: "newer" });
+    }
+  }
+
+  return {
+    api,
+    title: resolved.doc.metadata?.title,
+    docPath: resolved.docPath,
+    source: resolved.source,
+    overloaded: resolved.overloaded,
+    issues
+  };
+}
+
+/**
+ * Resolve an API through the fetch_latest_apple_docs resolution path
+ */
+async function resolveForCheck(
+  api: ApiReference,
+  framework?: string
+): Promise<(ResolvedDoc & { overloaded?: boolean }) | null> {
+  const { resolved, candidates } = await resolveAppleDoc(api.name, framework);
+
+  // Typo-tolerant matches are fine for names the user typed, not for names scraped from code
+  if (resolved) {
+    return api.fromSource && resolved.match?.matchType === "fuzzy" ? null : resolved;
+  }
+
+  // Overloads usually share availability; check the best-ranked one
+  const best = candidates?.[0];
+  if (!best || (api.fromSource && best.matchType === "fuzzy")) {
+    return null;
+  }
+  const doc = await fetchEntryDoc(best.entry);
+  return doc ? { doc, docPath: best.entry.path, match: best, source: best.entry.source, overloaded: true } : null;
+}
+
+/**
+ * Format the availability report
+ */
+function formatAvailabilityReport(checks: ApiCheck[], targets: DeploymentTarget[], skipped: ApiReference[]): string {
+  const flagged = checks.filter(c => c.issues.length > 0);
+  const available = checks.filter(c => c.docPath && c.issues.length === 0);
+  const unresolved = checks.filter(c => !c.docPath && !c.api.fromSource);
+
+  let output = `# 📱 API Availability Check\n\n`;
+  output += `**Deployment Targets:** ${targets.map(t => `${t.platform} ${t.version}`).join(", ")}\n`;
+  output += `**APIs Checked:** ${checks.filter(c => c.docPath).length}\n\n`;
+
+  if (skipped.length > 0) {
+    const names = skipped.slice(0, MAX_LISTED_SKIPPED).map(r => `\`${r.name}\``).join(", ");
+    const more = skipped.length > MAX_LISTED_SKIPPED ? `, and ${skipped.length - MAX_LISTED_SKIPPED} more` : "";
+    output += `> ⚠️ Truncated: only the first ${MAX_SOURCE_SYMBOLS} names referenced in the source were checked. `;
+    output += `Skipped ${names}${more}; pass them in \`symbols\` to check them.\n\n`;
+  }
+
+  if (flagged.length === 0) {
+    output += `## ✅ All Resolved APIs Are Available\n\n`;
+  } else {
+    output += `## ⚠️ ${flagged.length} API(s) Need an Availability Guard\n\n`;
+    output += `| API | Platform | Introduced | Target | Line |\n`;
+    output += `|-----|----------|------------|--------|------|\n`;
+    for (const check of flagged) {
+      for (const issue of check.issues) {
+        const introduced = issue.reason === "unavailable" ? "unavailable" : issue.introducedAt;
+        output += `| \`${check.title || check.api.name}\` | ${issue.platform} | ${introduced} | ${issue.target} | ${check.api.line ?? "—"} |\n`;
+      }
+    }
+    output += `\n`;
+
+    for (const check of flagged) {
+      output += formatGuardSuggestion(check);
+    }
+  }
+
+  if (available.length > 0) {
+    output += `## ✅ Available at the Deployment Target\n\n`;
+    for (const check of available) {
+      output += `- \`${check.title || check.api.name}\` — ${formatDocLink(check)}`;
+      output += check.overloaded ? ` *(overloaded; checked the best match)*\n` : `\n`;
+    }
+    output += `\n`;
+  }
+
+  if (unresolved.length > 0) {
+    output += `## ❓ Not Found\n\n`;
+    for (const check of unresolved) {
+      output += `- \`${check.api.name}\`\n`;
+    }
+    output += `\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Suggest @available and #available guards for a flagged API
+ */
+function formatGuardSuggestion(check: ApiCheck): string {
+  const name = check.title || check.api.name;
+  const newer = check.issues.filter(i => i.reason === "newer");
+  const unavailable = check.issues.filter(i => i.reason === "unavailable");
+
+  let output = `### \`${name}\`\n\n`;
+  if (check.docPath) {
+    output += formatDocLink(check);
+    output += check.api.line ? ` · first used on line ${check.api.line}\n\n` : `\n\n`;
+  }
+
+  // Platforms without a Swift availability name (DriverKit, for one) can't be guarded
+  const versions = uniqueSwiftPlatforms(newer)
+    .map(([platform, issue]) => `${platform} ${issue.introducedAt}`)
+    .join(", ");
+  const excluded = uniqueSwiftPlatforms(unavailable).map(([platform]) => platform);
+
+  if (versions) {
+    output += "```swift\n";
+    output += `// Mark the declaration that uses it\n`;
+    output += `@available(${versions}, *)\n\n`;
+    output += `// Or check at runtime\n`;
+    output += `if #available(${versions}, *) {\n`;
+    output += `    // Use ${name}\n`;
+    output += `} else {\n`;
+    output += `    // Fallback for earlier versions\n`;
+    output += `}\n`;
+    output += "```\n\n";
+  }
+
+  if (unavailable.length > 0) {
+    output += `Not available on ${unavailable.map(i => i.platform).join(", ")}. `;
+    output += excluded.length > 0
+      ? `Exclude it with \`#if os(...)\` or ${excluded.map(p => `\`@available(${p}, unavailable)\``).join(" ")}.\n\n`
+      : `Exclude it with \`#if os(...)\`.\n\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Issues keyed by Swift platform name, the latest introduction winning ("iPadOS" and "iOS" are both iOS)
+ */
+function uniqueSwiftPlatforms(issues: AvailabilityIssue[]): Array<[string, AvailabilityIssue]> {
+  const byPlatform = new Map<string, AvailabilityIssue>();
+  for (const issue of issues) {
+    const platform = getSwiftPlatformName(issue.platform);
+    const existing = platform ? byPlatform.get(platform) : undefined;
+    if (platform && (!existing || compareVersions(issue.introducedAt ?? "0", existing.introducedAt ?? "0") > 0)) {
+      byPlatform.set(platform, issue);
+    }
+  }
+  return [...byPlatform];
+}
+
+/**
+ * Link to an API's page, or name its local archive
+ */
+function formatDocLink(check: ApiCheck): string {
+  return check.source
+    ? `\`${check.docPath}\` in ${check.source}`
+    : `[Documentation](${getDocumentationURL(`/documentation/${check.docPath}`)})`;
+}
+
+/**
+ * Format message for unparseable deployment targets
+ */
+function formatInvalidTargets(value: string): string {
+  let output = `# API Availability Check\n\n`;
+  output += `> ⚠️ Could not parse deployment targets "${value}"\n\n`;
+  output += `Use a comma-separated list of platform and version, e.g. \`iOS 16.0, macOS 13.0\`.\n`;
+  return output;
+}
+
+/**
+ * Format message when neither symbols nor source were given
+ */
+function formatNothingToCheck(): string {
+  let output = `# API Availability Check\n\n`;
+  output += `> ⚠️ Nothing to check\n\n`;
+  output += `Provide \`symbols\` (e.g. ["NavigationStack", "ContentUnavailableView"]) or Swift \`source\` text.\n`;
+  return output;
+}
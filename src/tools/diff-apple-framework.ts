@@ -0,0 +1,276 @@
+/**
+ * Apple Framework API Diff
+ *
+ * Lists the symbols added, modified and deprecated in a framework between
+ * two SDK releases, using the change markers behind the "API Changes" toggle.
+ */
+
+import { fetchApiChanges, fetchLiveDoc, FRAMEWORK_PATHS } from "../lib/apple-docs-client.js";
+import { compareVersions, matchesPlatform } from "../lib/availability.js";
+import { capitalize, renderReferenceLink } from "../lib/docc-renderer.js";
+import { AppleDocJSON, DiffAvailabilityInfo } from "../lib/docc-types.js";
+
+interface SdkVersion {
+  platform: string;
+  version: string;
+}
+
+interface ApiChangeItem {
+  identifier: string;
+  change: string;
+  doc: AppleDocJSON;
+  parent: string;
+}
+
+interface DiffScan {
+  changes: ApiChangeItem[];
+  pagesScanned: number;
+  truncated: boolean;
+}
+
+// Pages walked per diff; SwiftUI's modified types alone can number in the hundreds
+const MAX_DIFF_PAGES = 60;
+
+// Pages fetched in parallel per step of the walk
+const DIFF_CONCURRENCY = 6;
+
+// SDK versions shipped with each Xcode release, for change sets keyed by Xcode version
+const XCODE_SDK_VERSIONS: Record<string, Record<string, string>> = {
+  "14": { ios: "16", ipados: "16", macos: "13", watchos: "9", tvos: "16" },
+  "15": { ios: "17", ipados: "17", macos: "14", watchos: "10", tvos: "17", visionos: "1" },
+  "16": { ios: "18", ipados: "18", macos: "15", watchos: "11", tvos: "18", visionos: "2" },
+  "26": { ios: "26", ipados: "26", macos: "26", watchos: "26", tvos: "26", visionos: "26" }
+};
+
+const CHANGE_ORDER = ["added", "modified", "deprecated"];
+
+/**
+ * Diff a framework's API between two SDK versions
+ */
+export async function diffAppleFramework(
+  framework: string,
+  fromVersion: string,
+  toVersion: string,
+  changeType?: string
+): Promise<string> {
+  const from = parseSdkVersion(fromVersion);
+  const to = parseSdkVersion(toVersion, from?.platform);
+  if (!from || !to) {
+    return formatInvalidVersions(fromVersion, toVersion);
+  }
+
+  const rootPath = FRAMEWORK_PATHS[framework.toLowerCase()]?.[0] ?? framework.toLowerCase();
+  const root = await fetchLiveDoc(rootPath);
+  if (!root) {
+    return formatNotFound(framework);
+  }
+
+  const changeSet = findChangeSet(root, from, to);
+  if (!changeSet) {
+    return formatNoChangeSet(root, framework, from, to);
+  }
+
+  const scan = await scanChanges(root, rootPath, changeSet.key);
+  const filter = changeType?.toLowerCase();
+  const changes = filter ? scan.changes.filter(c => c.change === filter) : scan.changes;
+
+  return formatDiff(root, framework, from, to, changeSet, { ...scan, changes });
+}
+
+/**
+ * Parse "iOS 17" or "17.0", inheriting the platform of the other version
+ */
+function parseSdkVersion(value: string, defaultPlatform?: string): SdkVersion | null {
+  const match = value.trim().match(/^([A-Za-z][A-Za-z ]*?)?\s*(\d+(?:\.\d+)*)$/);
+  const platform = match?.[1]?.trim() || defaultPlatform;
+  return match && platform ? { platform, version: match[2] } : null;
+}
+
+/**
+ * Pick the diffAvailability entry that compares the requested releases
+ */
+function findChangeSet(
+  doc: AppleDocJSON,
+  from: SdkVersion,
+  to: SdkVersion
+): (DiffAvailabilityInfo & { key: string }) | null {
+  for (const [key, info] of Object.entries(doc.diffAvailability ?? {})) {
+    const [first, last] = [info.versions[0], info.versions[info.versions.length - 1]];
+    if (!first || !last) continue;
+    if (sameRelease(first, info.platform, from) && sameRelease(last, info.platform, to)) {
+      return { ...info, key };
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a change set version ("16.0 beta 5" on Xcode) is the requested SDK release
+ */
+function sameRelease(version: string, platform: string, sdk: SdkVersion): boolean {
+  const number = version.match(/\d+(?:\.\d+)*/)?.[0];
+  if (!number) {
+    return false;
+  }
+
+  // Compare at the precision the user asked for: "17" matches 17.5, "17.4" doesn't
+  const precision = sdk.version.split(".").length;
+  const truncate = (v: string) => v.split(".").slice(0, precision).join(".");
+
+  if (matchesPlatform(platform, sdk.platform)) {
+    return compareVersions(truncate(number), truncate(sdk.version)) === 0;
+  }
+  if (platform.toLowerCase() === "xcode") {
+    const sdkVersion = XCODE_SDK_VERSIONS[number.split(".")[0]]?.[sdk.platform.toLowerCase().replace(/\s+/g, "")];
+    return sdkVersion !== undefined && sdkVersion === sdk.version.split(".")[0];
+  }
+  return false;
+}
+
+/**
+ * Walk the framework tree, descending into modified pages, and collect their change markers
+ */
+async function scanChanges(root: AppleDocJSON, rootPath: string, changes: string): Promise<DiffScan> {
+  const found = new Map<string, ApiChangeItem>();
+  const visited = new Set<string>([rootPath]);
+  let queue: Array<{ docPath: string; doc?: AppleDocJSON }> = [{ docPath: rootPath, doc: root }];
+  let pagesScanned = 0;
+
+  while (queue.length > 0 && pagesScanned < MAX_DIFF_PAGES) {
+    const batch = queue.slice(0, Math.min(DIFF_CONCURRENCY, MAX_DIFF_PAGES - pagesScanned));
+    queue = queue.slice(batch.length);
+    pagesScanned += batch.length;
+
+    const pages = await Promise.all(batch.map(async ({ docPath, doc }) => ({
+      docPath,
+      doc: doc ?? await fetchLiveDoc(docPath),
+      markers: await fetchApiChanges(docPath, changes)
+    })));
+
+    for (const { doc, markers } of pages) {
+      if (!doc || !markers) continue;
+      const parent = doc.metadata?.title ?? "";
+
+      for (const [identifier, marker] of Object.entries(markers)) {
+        if (!marker?.change || !doc.references?.[identifier] || found.has(identifier)) continue;
+        found.set(identifier, { identifier, change: marker.change, doc, parent });
+
+        // Modified pages hold the changes to their members
+        const childPath = getChildPath(doc.references[identifier].url);
+        if (marker.change === "modified" && childPath && !visited.has(childPath)) {
+          visited.add(childPath);
+          queue.push({ docPath: childPath });
+        }
+      }
+    }
+  }
+
+  return { changes: [...found.values()], pagesScanned, truncated: queue.length > 0 };
+}
+
+/**
+ * Documentation path of a reference URL, e.g. /documentation/swiftui/view -> swiftui/view
+ */
+function getChildPath(url: string | undefined): string | null {
+  const match = url?.match(/^\/documentation\/(.+)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Format the diff grouped by change type
+ */
+function formatDiff(
+  root: AppleDocJSON,
+  framework: string,
+  from: SdkVersion,
+  to: SdkVersion,
+  changeSet: DiffAvailabilityInfo & { key: string },
+  scan: DiffScan
+): string {
+  const title = root.metadata?.title || framework;
+
+  let output = `# 🔀 API Changes: ${title}\n\n`;
+  output += `**Releases:** ${from.platform} ${from.version} → ${to.platform} ${to.version}\n`;
+  output += `**Change Set:** ${changeSet.platform} ${changeSet.versions.join(" → ")} (${changeSet.key})\n`;
+  output += `**Pages Scanned:** ${scan.pagesScanned}\n\n`;
+
+  if (scan.truncated) {
+    output += `> ⚠️ Stopped after ${MAX_DIFF_PAGES} pages; deeper changes are not listed. Diff a type's page (e.g. "swiftui/view") for its members.\n\n`;
+  }
+
+  if (scan.changes.length === 0) {
+    output += `> No API changes recorded between these releases.\n`;
+    return output;
+  }
+
+  const types = [...new Set([...CHANGE_ORDER, ...scan.changes.map(c => c.change)])];
+  for (const type of types) {
+    const items = scan.changes.filter(c => c.change === type);
+    if (items.length === 0) continue;
+
+    output += `## ${getChangeEmoji(type)} ${capitalize(type)} (${items.length})\n\n`;
+    items.sort((a, b) => a.parent.localeCompare(b.parent));
+    for (const item of items) {
+      const link = renderReferenceLink(item.identifier, item.doc);
+      output += item.parent && item.parent !== title ? `- ${link} — in ${item.parent}\n` : `- ${link}\n`;
+    }
+    output += `\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Get emoji for a change type
+ */
+function getChangeEmoji(change: string): string {
+  switch (change) {
+    case "added": return "➕";
+    case "modified": return "✏️";
+    case "deprecated": return "⚠️";
+    default: return "•";
+  }
+}
+
+/**
+ * Format message when no change set compares the requested releases
+ */
+function formatNoChangeSet(root: AppleDocJSON, framework: string, from: SdkVersion, to: SdkVersion): string {
+  const available = Object.entries(root.diffAvailability ?? {});
+
+  let output = `# API Changes: ${root.metadata?.title || framework}\n\n`;
+  output += `> ⚠️ Apple's documentation has no change set for ${from.platform} ${from.version} → ${to.platform} ${to.version}\n\n`;
+
+  if (available.length > 0) {
+    output += `## Available Change Sets\n\n`;
+    for (const [key, info] of available) {
+      output += `- **${key}:** ${info.platform} ${info.versions.join(" → ")}\n`;
+    }
+    output += `\n`;
+    output += `Apple only publishes diffs against recent releases; pick one of the pairs above.\n`;
+  } else {
+    output += `This page does not publish API change markers.\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Format message for unparseable versions
+ */
+function formatInvalidVersions(fromVersion: string, toVersion: string): string {
+  let output = `# API Changes\n\n`;
+  output += `> ⚠️ Could not parse SDK versions "${fromVersion}" and "${toVersion}"\n\n`;
+  output += `Use a platform and version, e.g. \`iOS 17\` and \`iOS 18\`.\n`;
+  return output;
+}
+
+/**
+ * Format not found message
+ */
+function formatNotFound(framework: string): string {
+  let output = `# API Changes: ${framework}\n\n`;
+  output += `> ⚠️ Could not find a documentation page for "${framework}"\n\n`;
+  output += `Use a framework name (e.g., "SwiftUI") or a documentation path (e.g., "swiftui/view").\n`;
+  return output;
+}
@@ -5,7 +5,46 @@
  * real-time documentation from developer.apple.com
  */
 
-interface AppleDocResult {
+import { fetchLiveDoc, fetchTutorialDoc, FRAMEWORK_PATHS } from "../lib/apple-docs-client.js";
+import {
+  formatAvailabilityNotices,
+  formatAvailabilityRange,
+  getPlatformAvailability,
+} from "../lib/availability.js";
+import { OFFLINE } from "../lib/config.js";
+import { loadArchiveEntries, readArchiveDoc } from "../lib/docc-archive.js";
+import {
+  getDeclarationText,
+  getDocumentationURL,
+  getProjectDownloadURL,
+  renderContentSection,
+  renderInline,
+  renderPrimaryContentSections,
+  renderRelationshipsSections,
+  renderSeeAlsoSections,
+  renderTopicSections,
+  renderTutorialSections,
+} from "../lib/docc-renderer.js";
+import { AppleDocJSON } from "../lib/docc-types.js";
+import {
+  applyLanguageVariant,
+  DocLanguage,
+  getCodeSyntax,
+  getVariantPath,
+  hasLanguageVariant,
+} from "../lib/docc-variants.js";
+import { firstSuccess } from "../lib/http.js";
+import {
+  isAmbiguous,
+  isGuideEntry,
+  loadSymbolIndexes,
+  searchSymbolIndex,
+  SymbolIndexEntry,
+  SymbolMatch,
+} from "../lib/symbol-index.js";
+import { ToolOutput } from "../lib/tool-output.js";
+
+export interface AppleDocResult {
   title: string;
   description: string;
   url: string;
@@ -15,53 +54,41 @@ interface AppleDocResult {
   codeExamples?: string[];
   declaration?: string;
   overview?: string;
+  downloadURL?: string;
+  language?: DocLanguage;
+  source?: string;
 }
 
-interface AppleDocJSON {
-  metadata?: {
-    title?: string;
-    roleHeading?: string;
-    platforms?: Array<{ name: string; introducedAt: string }>;
-    modules?: Array<{ name: string }>;
-    fragments?: Array<{ text: string; kind: string }>;
-  };
-  abstract?: Array<{ text: string; type: string }>;
-  primaryContentSections?: Array<{
-    kind: string;
-    content?: Array<any>;
-    declarations?: Array<{
-      tokens: Array<{ text: string; kind: string }>;
-    }>;
-  }>;
+export interface DocCandidate {
+  name: string;
+  kind: string;
+  framework: string;
+  path: string;
+  url?: string;
+  signature?: string;
+  source?: string;
 }
 
-// Apple Documentation JSON API base
-const APPLE_DOCS_API = "https://developer.apple.com/tutorials/data/documentation";
+export interface AppleDocsOutput {
+  status: "found" | "ambiguous" | "not_found" | "error";
+  query: string;
+  result?: AppleDocResult;
+  candidates?: DocCandidate[];
+  error?: string;
+}
 
 /**
- * Framework to documentation path mappings
+ * What kind of page to look for: API reference, or articles, sample code and tutorials
  */
-const FRAMEWORK_PATHS: Record<string, string[]> = {
-  "swiftui": ["swiftui"],
-  "uikit": ["uikit"],
-  "foundation": ["foundation"],
-  "observation": ["observation"],
-  "swiftdata": ["swiftdata"],
-  "combine": ["combine"],
-  "realitykit": ["realitykit"],
-  "arkit": ["arkit"],
-  "coredata": ["coredata"],
-  "coreml": ["coreml"],
-  "mapkit": ["mapkit"],
-  "cloudkit": ["cloudkit"],
-  "healthkit": ["healthkit"],
-  "storekit": ["storekit"],
-  "avfoundation": ["avfoundation"],
-  "swift": ["swift", "observation"]
-};
+export type DocMode = "symbol" | "guide";
 
 /**
- * Common API name mappings
+ * Frameworks searched when the query doesn't name one
+ */
+const DEFAULT_FRAMEWORKS = ["swiftui", "foundation", "uikit", "observation", "swiftdata", "combine"];
+
+/**
+ * Common API name mappings, used when the symbol index is unavailable
  */
 const API_MAPPINGS: Record<string, { framework: string; path: string }> = {
   // SwiftUI
@@ -126,57 +153,170 @@ const API_MAPPINGS: Record<string, { framework: string; path: string }> = {
   "uinavigationcontroller": { framework: "uikit", path: "uikit/uinavigationcontroller" }
 };
 
+export interface ResolvedDoc {
+  doc: AppleDocJSON;
+  docPath: string;
+  match?: SymbolMatch;
+  source?: string;
+  tutorial?: boolean;
+}
+
+export interface DocResolution {
+  resolved?: ResolvedDoc;
+  candidates?: SymbolMatch[];
+}
+
 /**
  * Fetch live documentation from Apple
  */
 export async function fetchAppleDocs(
   query: string,
   framework?: string,
-  includeExamples: boolean = true
-): Promise<string> {
-  const normalizedQuery = query.toLowerCase().replace(/^@/, "");
-  
+  includeExamples: boolean = true,
+  platform?: string,
+  mode: DocMode = "symbol",
+  language: DocLanguage = "swift"
+): Promise<ToolOutput<AppleDocsOutput>> {
   try {
-    // Try direct API mapping first
-    let docPath = getDocPath(normalizedQuery, framework);
+    const { resolved, candidates } = mode === "guide"
+      ? await resolveGuideDoc(query, framework)
+      : await resolveAppleDoc(query, framework);
     
-    if (docPath) {
-      const liveDoc = await fetchLiveDoc(docPath);
-      if (liveDoc) {
-        return formatLiveDoc(liveDoc, query, includeExamples);
-      }
+    if (candidates) {
+      const signatures = await fetchOverloadSignatures(candidates, language);
+      return {
+        markdown: formatCandidates(candidates, query, signatures, language),
+        data: { status: "ambiguous", query, candidates: buildCandidates(candidates, signatures) }
+      };
     }
-    
-    // Try framework-based search
-    if (framework) {
-      const frameworkPaths = FRAMEWORK_PATHS[framework.toLowerCase()];
-      if (frameworkPaths) {
-        for (const fwPath of frameworkPaths) {
-          const tryPath = `${fwPath}/${normalizedQuery}`;
-          const liveDoc = await fetchLiveDoc(tryPath);
-          if (liveDoc) {
-            return formatLiveDoc(liveDoc, query, includeExamples);
-          }
-        }
-      }
-    }
-    
-    // Try common frameworks
-    const commonFrameworks = ["swiftui", "foundation", "uikit", "observation", "swiftdata", "combine"];
-    for (const fw of commonFrameworks) {
-      const tryPath = `${fw}/${normalizedQuery}`;
-      const liveDoc = await fetchLiveDoc(tryPath);
-      if (liveDoc) {
-        return formatLiveDoc(liveDoc, query, includeExamples);
-      }
+    if (resolved) {
+      const variant = { ...resolved, doc: applyLanguageVariant(resolved.doc, language) };
+      return {
+        markdown: formatLiveDoc(variant, query, includeExamples, platform, language),
+        data: { status: "found", query, result: buildDocResult(variant, includeExamples, platform, language) }
+      };
     }
     
     // If no live doc found, return a message
-    return formatNotFound(query, framework);
+    return {
+      markdown: formatNotFound(query, framework, mode),
+      data: { status: "not_found", query }
+    };
     
   } catch (error) {
-    return formatError(query, framework, error);
+    return {
+      markdown: formatError(query, framework, error),
+      data: { status: "error", query, error: error instanceof Error ? error.message : String(error) }
+    };
+  }
+}
+
+/**
+ * Resolve a query to a documentation page, or to candidates when it is ambiguous
+ */
+export async function resolveAppleDoc(query: string, framework?: string): Promise<DocResolution> {
+  const normalizedQuery = query.toLowerCase().replace(/^@/, "");
+  
+  // Resolve through the symbol index and any local DocC archives
+  const indexFrameworks = framework ? [framework.toLowerCase()] : DEFAULT_FRAMEWORKS;
+  const [appleEntries, archiveEntries] = await Promise.all([
+    loadSymbolIndexes(indexFrameworks),
+    loadArchiveEntries()
+  ]);
+  const localEntries = framework
+    ? archiveEntries.filter(e => e.framework.toLowerCase() === framework.toLowerCase())
+    : archiveEntries;
+  const matches = searchSymbolIndex([...localEntries, ...appleEntries].filter(e => !isGuideEntry(e)), query);
+  
+  if (matches.length > 0) {
+    if (isAmbiguous(matches)) {
+      return { candidates: matches };
+    }
+    const { entry } = matches[0];
+    const doc = await fetchEntryDoc(entry);
+    if (doc) {
+      return { resolved: { doc, docPath: entry.path, match: matches[0], source: entry.source } };
+    }
+  }
+  
+  // Fall back to curated mappings and path guessing, probing every guess at once
+  const probePaths = getProbePaths(normalizedQuery, framework);
+  const probe = await firstSuccess(probePaths.map(docPath => (signal: AbortSignal) => fetchLiveDoc(docPath, signal)));
+  if (probe) {
+    return { resolved: { doc: probe.value, docPath: probePaths[probe.index] } };
+  }
+  
+  return {};
+}
+
+/**
+ * Resolve a query to an article, sample code project or tutorial
+ */
+export async function resolveGuideDoc(query: string, framework?: string): Promise<DocResolution> {
+  // URLs and paths name the page directly
+  const pagePath = getGuidePagePath(query);
+  if (pagePath) {
+    const doc = pagePath.tutorial ? await fetchTutorialDoc(pagePath.path) : await fetchLiveDoc(pagePath.path);
+    return doc ? { resolved: { doc, docPath: pagePath.path, tutorial: pagePath.tutorial } } : {};
   }
+  
+  // Articles and sample code are indexed by title
+  const indexFrameworks = framework ? [framework.toLowerCase()] : DEFAULT_FRAMEWORKS;
+  const [appleEntries, archiveEntries] = await Promise.all([
+    loadSymbolIndexes(indexFrameworks),
+    loadArchiveEntries()
+  ]);
+  const localEntries = framework
+    ? archiveEntries.filter(e => e.framework.toLowerCase() === framework.toLowerCase())
+    : archiveEntries;
+  const matches = searchSymbolIndex([...localEntries, ...appleEntries].filter(isGuideEntry), query);
+  
+  if (matches.length > 0 && matches[0].matchType !== "fuzzy" && !isAmbiguous(matches)) {
+    const doc = await fetchEntryDoc(matches[0].entry);
+    if (doc) {
+      return { resolved: { doc, docPath: matches[0].entry.path, match: matches[0], source: matches[0].entry.source } };
+    }
+  }
+  
+  // Tutorials aren't in the index, so probe the title's slug as a tutorial and as an article
+  const probes = getGuideProbes(query, framework);
+  const probe = await firstSuccess(probes.map(({ path, tutorial }) =>
+    (signal: AbortSignal) => tutorial ? fetchTutorialDoc(path, signal) : fetchLiveDoc(path, signal)
+  ));
+  if (probe) {
+    const { path, tutorial } = probes[probe.index];
+    return { resolved: { doc: probe.value, docPath: path, tutorial } };
+  }
+  
+  return matches.length > 0 ? { candidates: matches } : {};
+}
+
+/**
+ * Load the page for an index entry from its archive or from Apple
+ */
+export async function fetchEntryDoc(entry: SymbolIndexEntry): Promise<AppleDocJSON | null> {
+  return entry.source ? readArchiveDoc(entry) : fetchLiveDoc(entry.path);
+}
+
+/**
+ * Fetch the declarations of the tied best candidates, keyed by path
+ */
+async function fetchOverloadSignatures(
+  candidates: SymbolMatch[],
+  language: DocLanguage = "swift"
+): Promise<Map<string, string>> {
+  const tied = candidates.filter(c => c.score === candidates[0].score);
+  const signatures = new Map<string, string>();
+  
+  await Promise.all(tied.map(async ({ entry }) => {
+    const doc = await fetchEntryDoc(entry);
+    const declaration = doc ? getDeclarationText(applyLanguageVariant(doc, language)) : undefined;
+    if (declaration) {
+      signatures.set(entry.path, declaration);
+    }
+  }));
+  
+  return signatures;
 }
 
 /**
@@ -204,41 +344,147 @@ function getDocPath(query: string, framework?: string): string | null {
 }
 
 /**
- * Fetch live documentation from Apple's JSON API
+ * Candidate paths for a query, most likely first and without duplicates
  */
-async function fetchLiveDoc(docPath: string): Promise<AppleDocJSON | null> {
-  const url = `${APPLE_DOCS_API}/${docPath}.json`;
+function getProbePaths(normalizedQuery: string, framework?: string): string[] {
+  const paths: string[] = [];
   
-  try {
-    const response = await fetch(url, {
-      headers: {
-        "Accept": "application/json",
-        "User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7)"
-      }
-    });
-    
-    if (!response.ok) {
-      return null;
-    }
-    
-    return await response.json() as AppleDocJSON;
-  } catch {
-    return null;
+  const docPath = getDocPath(normalizedQuery, framework);
+  if (docPath) {
+    paths.push(docPath);
+  }
+  
+  const frameworkPaths = framework ? FRAMEWORK_PATHS[framework.toLowerCase()] ?? [] : [];
+  for (const fwPath of [...frameworkPaths, ...DEFAULT_FRAMEWORKS]) {
+    paths.push(`${fwPath}/${normalizedQuery}`);
+  }
+  
+  return [...new Set(paths)];
+}
+
+/**
+ * Parse a developer.apple.com URL or a documentation/tutorials path
+ */
+function getGuidePagePath(query: string): { path: string; tutorial: boolean } | null {
+  const trimmed = query.trim()
+    .replace(/^https?:\/\/[^/]+/, "")
+    .replace(/[?#].*$/, "")
+    .replace(/^\/+|\/+$/g, "");
+  const match = trimmed.match(/^(documentation|tutorials)\/(.+)$/i);
+  return match ? { path: match[2].toLowerCase(), tutorial: match[1].toLowerCase() === "tutorials" } : null;
+}
+
+/**
+ * Article and tutorial paths a title may live at, most likely first
+ */
+function getGuideProbes(query: string, framework?: string): Array<{ path: string; tutorial: boolean }> {
+  // "Adopting SwiftData for a Core Data app" -> adopting-swiftdata-for-a-core-data-app
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  if (!slug) {
+    return [];
+  }
+  
+  const frameworkPaths = framework ? [framework.toLowerCase(), ...FRAMEWORK_PATHS[framework.toLowerCase()] ?? []] : [];
+  const frameworks = [...new Set([...frameworkPaths, ...DEFAULT_FRAMEWORKS])];
+  
+  // A bare framework name is its tutorials overview
+  const probes = [{ path: slug, tutorial: true }];
+  for (const fw of frameworks) {
+    probes.push({ path: `${fw}/${slug}`, tutorial: false });
+    probes.push({ path: `${fw}/${slug}`, tutorial: true });
   }
+  return probes;
+}
+
+/**
+ * Absolute URL of a resolved page
+ */
+function getPageURL({ doc, docPath, tutorial }: ResolvedDoc, language: DocLanguage = "swift"): string {
+  // Objective-C pages can live at their own path
+  const variantPath = language === "objc" ? getVariantPath(doc, "objc") : undefined;
+  if (variantPath) {
+    return getDocumentationURL(variantPath);
+  }
+  // The page's own identifier is authoritative; the fetched path is a fallback
+  return getDocumentationURL(doc.identifier?.url ?? `/${tutorial ? "tutorials" : "documentation"}/${docPath}`);
+}
+
+/**
+ * Build the structured result for a documentation page
+ */
+function buildDocResult(
+  resolved: ResolvedDoc,
+  includeExamples: boolean,
+  platform?: string,
+  language: DocLanguage = "swift"
+): AppleDocResult {
+  const { doc, docPath, source } = resolved;
+  const overview = (doc.primaryContentSections ?? [])
+    .filter(s => s.kind === "content")
+    .map(s => renderContentSection(s, doc))
+    .join("")
+    .trim();
+  
+  return {
+    title: doc.metadata?.title || docPath,
+    description: renderInline(doc.abstract, doc),
+    url: source ? docPath : getPageURL(resolved, language),
+    type: doc.metadata?.roleHeading || doc.metadata?.symbolKind || doc.metadata?.role || "",
+    framework: doc.metadata?.modules?.[0]?.name,
+    availability: getPlatformAvailability(doc, platform).map(formatAvailabilityRange),
+    codeExamples: includeExamples ? extractCodeExamples(doc) : undefined,
+    declaration: getDeclarationText(doc),
+    overview: overview || undefined,
+    downloadURL: getProjectDownloadURL(doc),
+    language: getShownLanguage(doc, language),
+    source
+  };
+}
+
+/**
+ * The language a page is shown in; Swift-only pages stay in Swift
+ */
+function getShownLanguage(doc: AppleDocJSON, language: DocLanguage): DocLanguage {
+  return language === "objc" && hasLanguageVariant(doc, "objc") ? "objc" : "swift";
+}
+
+/**
+ * Build structured candidates for an ambiguous query
+ */
+function buildCandidates(matches: SymbolMatch[], signatures: Map<string, string>): DocCandidate[] {
+  return matches.map(({ entry }) => ({
+    name: entry.qualifiedName,
+    kind: entry.kind,
+    framework: entry.framework,
+    path: entry.path,
+    url: entry.source ? undefined : getDocumentationURL(`/documentation/${entry.path}`),
+    signature: signatures.get(entry.path),
+    source: entry.source
+  }));
 }
 
 /**
  * Format live documentation response
  */
-function formatLiveDoc(doc: AppleDocJSON, query: string, includeExamples: boolean): string {
+function formatLiveDoc(
+  resolved: ResolvedDoc,
+  query: string,
+  includeExamples: boolean,
+  platform?: string,
+  language: DocLanguage = "swift"
+): string {
+  const { doc, docPath, source } = resolved;
   let output = "";
   
   const title = doc.metadata?.title || query;
   const roleHeading = doc.metadata?.roleHeading || "";
   const framework = doc.metadata?.modules?.[0]?.name || "";
+  const shownLanguage = getShownLanguage(doc, language);
   
-  output += `# 📚 Apple Developer Documentation: ${title}\n\n`;
-  output += `> ✅ **Live documentation from developer.apple.com**\n\n`;
+  output += `# 📚 ${source ? "Documentation" : "Apple Developer Documentation"}: ${title}\n\n`;
+  output += source
+    ? `> 📦 **Local documentation from ${source}**\n\n`
+    : `> ✅ **Live documentation from developer.apple.com**\n\n`;
   
   if (roleHeading) {
     output += `**Type:** ${roleHeading}\n`;
@@ -246,40 +492,52 @@ function formatLiveDoc(doc: AppleDocJSON, query: string, includeExamples: boolea
   if (framework) {
     output += `**Framework:** ${framework}\n`;
   }
+  if (shownLanguage === "objc") {
+    output += `**Language:** Objective-C\n`;
+    // Objective-C method titles are their selectors
+    if (/method/i.test(roleHeading) && title.includes(":")) {
+      output += `**Selector:** \`@selector(${title})\`\n`;
+    }
+  }
   
   // Platform availability
-  const platforms = doc.metadata?.platforms;
-  if (platforms && platforms.length > 0) {
+  const availability = getPlatformAvailability(doc, platform);
+  if (availability.length > 0) {
     output += `**Availability:** `;
-    output += platforms.map(p => `${p.name} ${p.introducedAt}+`).join(", ");
+    output += availability.map(formatAvailabilityRange).join(", ");
     output += `\n`;
   }
   
-  output += `**Documentation URL:** https://developer.apple.com/documentation/${getDocPathFromTitle(title, framework)}\n\n`;
-  
-  // Declaration
-  const declarations = doc.primaryContentSections?.find(s => s.kind === "declarations");
-  if (declarations?.declarations?.[0]) {
-    const tokens = declarations.declarations[0].tokens;
-    const declarationText = tokens.map(t => t.text).join("");
-    output += `## Declaration\n\n`;
-    output += "```swift\n";
-    output += declarationText;
-    output += "\n```\n\n";
+  // Sample code and tutorials ship a downloadable project
+  const downloadURL = getProjectDownloadURL(doc);
+  if (downloadURL) {
+    output += `**Sample Project:** [Download](${downloadURL})\n`;
+  }
+  
+  if (source) {
+    output += `**Source:** ${source} (\`${docPath}\`)\n\n`;
+  } else {
+    output += `**Documentation URL:** ${getPageURL(resolved, shownLanguage)}\n\n`;
   }
   
+  if (language === "objc" && shownLanguage === "swift") {
+    output += `> ℹ️ This page has no Objective-C version; showing Swift.\n\n`;
+  }
+  
+  // Deprecation, beta and platform warnings
+  output += formatAvailabilityNotices(availability, doc, platform);
+  
   // Abstract
   if (doc.abstract && doc.abstract.length > 0) {
     output += `## Overview\n\n`;
-    const abstractText = doc.abstract.map(a => a.text).join("");
-    output += `${abstractText}\n\n`;
+    output += `${renderInline(doc.abstract, doc)}\n\n`;
   }
   
-  // Content sections
-  const contentSection = doc.primaryContentSections?.find(s => s.kind === "content");
-  if (contentSection?.content) {
-    output += parseContentSection(contentSection.content);
-  }
+  // Declaration, parameters, return value and discussion
+  output += renderPrimaryContentSections(doc);
+  
+  // Tutorial chapters, steps and code files
+  output += renderTutorialSections(doc, includeExamples);
   
   // Code examples from content
   if (includeExamples) {
@@ -287,44 +545,23 @@ function formatLiveDoc(doc: AppleDocJSON, query: string, includeExamples: boolea
     if (codeExamples.length > 0) {
       output += `## Code Examples\n\n`;
       for (const example of codeExamples) {
-        output += "```swift\n";
+        output += "```" + getCodeSyntax(shownLanguage) + "\n";
         output += example;
         output += "\n```\n\n";
       }
     }
   }
   
+  // Topics, relationships and see also
+  output += renderTopicSections(doc);
+  output += renderRelationshipsSections(doc);
+  output += renderSeeAlsoSections(doc);
+  
   // Footer
   output += `---\n`;
-  output += `*Documentation fetched live from Apple Developer on ${new Date().toISOString().split('T')[0]}*\n`;
-  
-  return output;
-}
-
-/**
- * Parse content section to markdown
- */
-function parseContentSection(content: any[]): string {
-  let output = "";
-  
-  for (const item of content) {
-    if (item.type === "heading") {
-      const level = item.level || 2;
-      output += `${"#".repeat(level)} ${item.text}\n\n`;
-    } else if (item.type === "paragraph") {
-      const text = item.inlineContent?.map((c: any) => {
-        if (c.type === "text") return c.text;
-        if (c.type === "codeVoice") return `\`${c.code}\``;
-        if (c.type === "reference") return `**${c.identifier?.split("/").pop() || ""}**`;
-        return "";
-      }).join("") || "";
-      output += `${text}\n\n`;
-    } else if (item.type === "codeListing") {
-      output += "```" + (item.syntax || "swift") + "\n";
-      output += (item.code || []).join("\n");
-      output += "\n```\n\n";
-    }
-  }
+  output += source
+    ? `*Documentation read from ${source} on ${new Date().toISOString().split('T')[0]}*\n`
+    : `*Documentation fetched live from Apple Developer on ${new Date().toISOString().split('T')[0]}*\n`;
   
   return output;
 }
@@ -348,18 +585,49 @@ function extractCodeExamples(doc: AppleDocJSON): string[] {
 }
 
 /**
- * Get documentation path from title
+ * Format a list of candidate symbols for an ambiguous query
  */
-function getDocPathFromTitle(title: string, framework: string): string {
-  const normalizedTitle = title.toLowerCase().replace(/[^a-z0-9]/g, "");
-  const normalizedFramework = framework.toLowerCase();
-  return `${normalizedFramework}/${normalizedTitle}`;
+function formatCandidates(
+  matches: SymbolMatch[],
+  query: string,
+  signatures: Map<string, string>,
+  language: DocLanguage = "swift"
+): string {
+  let output = `# Apple Documentation: ${query}\n\n`;
+  output += `> 🔎 "${query}" matches ${matches.length} symbols. Refine the query with one of the names below.\n\n`;
+  
+  output += `| Symbol | Kind | Framework | Path |\n`;
+  output += `|--------|------|-----------|------|\n`;
+  for (const { entry } of matches) {
+    const location = entry.source
+      ? `\`${entry.path}\` (${entry.source})`
+      : `[${entry.path}](${getDocumentationURL(`/documentation/${entry.path}`)})`;
+    const flags = [entry.deprecated ? "deprecated" : "", entry.beta ? "beta" : ""].filter(Boolean);
+    const kind = flags.length > 0 ? `${entry.kind} (${flags.join(", ")})` : entry.kind;
+    output += `| \`${entry.qualifiedName}\` | ${kind} | ${entry.framework} | ${location} |\n`;
+  }
+  output += `\n`;
+  
+  // Overloads share a name, so show each one's declaration
+  if (signatures.size > 0) {
+    output += `## Signatures\n\n`;
+    for (const { entry } of matches) {
+      const signature = signatures.get(entry.path);
+      if (!signature) continue;
+      output += `### \`${entry.qualifiedName}\`\n\n`;
+      output += `Path: \`${entry.path}\`\n\n`;
+      output += "```" + getCodeSyntax(language) + "\n" + signature + "\n```\n\n";
+    }
+    output += `> Query with a full signature (e.g. \`onChange(of:initial:_:)\`) or a path from above to pick one overload.\n\n`;
+  }
+  
+  return output;
 }
 
 /**
  * Format not found message
  */
-function formatNotFound(query: string, framework?: string): string {
+function formatNotFound(query: string, framework?: string, mode: DocMode = "symbol"): string {
   let output = `# Apple Documentation: ${query}\n\n`;
   output += `> ⚠️ Could not find live documentation for "${query}"`;
   if (framework) {
@@ -367,10 +635,21 @@ function formatNotFound(query: string, framework?: string): string {
   }
   output += `\n\n`;
   
+  if (OFFLINE) {
+    output += `> 📴 Offline mode is on (\`APPLE_DEV_MCP_OFFLINE\`), so only cached documentation is available.\n\n`;
+  }
+  
   output += `## Suggestions\n\n`;
-  output += `1. Check the spelling of the API name\n`;
-  output += `2. Try specifying the framework (e.g., "SwiftUI")\n`;
-  output += `3. Use the full API name (e.g., "NavigationStack" instead of "navigation")\n\n`;
+  if (mode === "guide") {
+    output += `1. Use the page's full title (e.g., "Adopting SwiftData for a Core Data app")\n`;
+    output += `2. Try specifying the framework (e.g., "SwiftData")\n`;
+    output += `3. Paste the developer.apple.com URL of the article, sample code or tutorial\n\n`;
+  } else {
+    output += `1. Check the spelling of the API name\n`;
+    output += `2. Try specifying the framework (e.g., "SwiftUI")\n`;
+    output += `3. Use the full API name (e.g., "NavigationStack" instead of "navigation")\n`;
+    output += `4. For articles, sample code and tutorials, use \`mode: "guide"\`\n\n`;
+  }
   
   output += `## Quick Links\n\n`;
   output += `- [Apple Developer Documentation](https://developer.apple.com/documentation/)\n`;
@@ -385,11 +664,16 @@ function formatNotFound(query: string, framework?: string): string {
  * Format error message
  */
 function formatError(query: string, framework: string | undefined, error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
   let output = `# Apple Documentation: ${query}\n\n`;
-  output += `> ❌ Error fetching documentation\n\n`;
-  output += `An error occurred while fetching documentation. Please try again.\n\n`;
+  output += `> ❌ Error fetching documentation${framework ? ` in ${framework}` : ""}: ${message}\n\n`;
+  if (OFFLINE) {
+    output += `> 📴 Offline mode is on (\`APPLE_DEV_MCP_OFFLINE\`), so only cached documentation is available.\n\n`;
+  }
+  output += `Check the query and framework, then try again.\n\n`;
   output += `## Quick Links\n\n`;
-  output += `- [Apple Developer Documentation](https://developer.apple.com/documentation/)\n`;
+  output += `- [Apple Developer Documentation](https://developer.apple.com/documentation/${framework ? `${framework.toLowerCase()}/` : ""})\n`;
   
   return output;
 }
@@ -0,0 +1,247 @@
+/**
+ * Fetch Human Interface Guidelines
+ *
+ * Looks up design guidance in Apple's Human Interface Guidelines and
+ * renders it, optionally narrowed to one platform's considerations.
+ */
+
+import { fetchDesignDoc } from "../lib/apple-docs-client.js";
+import { matchesPlatform } from "../lib/availability.js";
+import { OFFLINE } from "../lib/config.js";
+import {
+  getDocumentationURL,
+  renderInline,
+  renderPrimaryContentSections,
+  renderSeeAlsoSections,
+} from "../lib/docc-renderer.js";
+import { AppleDocJSON, BlockContent } from "../lib/docc-types.js";
+
+interface GuidancePage {
+  designPath: string;
+  doc: AppleDocJSON;
+}
+
+// Root of the guidelines; its references list the individual topic pages
+const HIG_ROOT = "human-interface-guidelines";
+
+// Questions can match several pages (sheet vs. popover); render at most this many
+const MAX_PAGES = 3;
+
+// Phrases that don't appear in the title of the page that answers them
+const TOPIC_ALIASES: Record<string, string> = {
+  "tap target": "accessibility",
+  "touch target": "accessibility",
+  "hit target": "accessibility",
+  "hit region": "accessibility",
+  "font": "typography",
+  "dark mode": "dark-mode",
+  "app icon": "app-icons",
+  "haptic": "playing-haptics"
+};
+
+// Words that never identify a topic
+const STOP_WORDS = new Set([
+  "the", "and", "for", "how", "what", "when", "where", "which", "why", "should", "use", "using",
+  "vs", "versus", "big", "large", "small", "can", "does", "with", "from", "into", "about", "app", "apps"
+]);
+
+/**
+ * Fetch the guidelines for a topic or design question
+ */
+export async function fetchHigGuidance(topic: string, platform?: string): Promise<string> {
+  const designPaths = await resolveDesignPaths(topic);
+  const pages = await Promise.all(designPaths.map(async designPath => {
+    const doc = await fetchDesignDoc(designPath);
+    return doc ? { designPath, doc } : null;
+  }));
+  const found = pages.filter((p): p is GuidancePage => p !== null);
+
+  if (found.length === 0) {
+    return formatNotFound(topic);
+  }
+
+  return found.map(page => formatGuidancePage(page, platform)).join("\n");
+}
+
+/**
+ * Turn a topic, question, path or URL into guideline page paths
+ */
+async function resolveDesignPaths(topic: string): Promise<string[]> {
+  const trimmed = topic.trim()
+    .replace(/^https?:\/\/[^/]+/, "")
+    .replace(/[?#].*$/, "")
+    .replace(/^\/+|\/+$/g, "")
+    .replace(/^design\//, "")
+    .toLowerCase();
+  if (trimmed.startsWith(`${HIG_ROOT}/`)) {
+    return [trimmed];
+  }
+
+  const paths = Object.entries(TOPIC_ALIASES)
+    .filter(([phrase]) => trimmed.includes(phrase))
+    .map(([, slug]) => `${HIG_ROOT}/${slug}`);
+
+  const root = await fetchDesignDoc(HIG_ROOT);
+  if (root) {
+    paths.push(...findTopicPages(root, trimmed));
+  }
+
+  // Fall back to the topic as a page name ("Sheets" -> human-interface-guidelines/sheets)
+  if (paths.length === 0) {
+    const slug = trimmed.replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+    if (slug) {
+      paths.push(`${HIG_ROOT}/${slug}`);
+    }
+  }
+
+  return [...new Set(paths)].slice(0, MAX_PAGES);
+}
+
+/**
+ * Find the guideline pages whose titles share the most words with the topic
+ */
+function findTopicPages(root: AppleDocJSON, topic: string): string[] {
+  const words = new Set(getKeywords(topic));
+  if (words.size === 0) {
+    return [];
+  }
+
+  const scored: Array<{ designPath: string; score: number }> = [];
+  for (const reference of Object.values(root.references ?? {})) {
+    const url = reference.url ?? "";
+    if (!reference.title || !url.startsWith(`/design/${HIG_ROOT}/`)) {
+      continue;
+    }
+    const score = getKeywords(reference.title).filter(w => words.has(w)).length;
+    if (score > 0) {
+      scored.push({ designPath: url.replace(/^\/design\//, ""), score });
+    }
+  }
+
+  const best = Math.max(0, ...scored.map(s => s.score));
+  return scored.filter(s => s.score === best).map(s => s.designPath);
+}
+
+/**
+ * Lowercased, singular words worth matching on
+ */
+function getKeywords(text: string): string[] {
+  return text.toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length >= 3 && !STOP_WORDS.has(w))
+    .map(w => w.length > 3 && w.endsWith("s") && !w.endsWith("ss") ? w.slice(0, -1) : w);
+}
+
+/**
+ * Platform subsections of a page's "Platform considerations" section
+ */
+function getPlatformHeadings(doc: AppleDocJSON): string[] {
+  const headings: string[] = [];
+  forEachPlatformHeading(doc, heading => headings.push(heading.text ?? ""));
+  return headings;
+}
+
+/**
+ * Visit each level-3 heading under "Platform considerations"
+ */
+function forEachPlatformHeading(doc: AppleDocJSON, visit: (heading: BlockContent) => void): void {
+  for (const section of doc.primaryContentSections ?? []) {
+    let inPlatformSection = false;
+    for (const block of section.content ?? []) {
+      if (block.type !== "heading") continue;
+      if ((block.level ?? 2) <= 2) {
+        inPlatformSection = /platform considerations/i.test(block.text ?? "");
+      } else if (inPlatformSection && block.level === 3) {
+        visit(block);
+      }
+    }
+  }
+}
+
+/**
+ * Copy of a page with only one platform's considerations kept
+ */
+function narrowToPlatform(doc: AppleDocJSON, platform: string): { doc: AppleDocJSON; matched: boolean } {
+  let matched = false;
+
+  const primaryContentSections = (doc.primaryContentSections ?? []).map(section => {
+    const content: BlockContent[] = [];
+    let inPlatformSection = false;
+    let keep = true;
+
+    for (const block of section.content ?? []) {
+      if (block.type === "heading" && (block.level ?? 2) <= 2) {
+        inPlatformSection = /platform considerations/i.test(block.text ?? "");
+        keep = true;
+      } else if (inPlatformSection && block.type === "heading" && block.level === 3) {
+        // Headings name one or more platforms: "iOS, iPadOS"
+        keep = (block.text ?? "").split(/,\s*|\s+and\s+/).some(name => matchesPlatform(name, platform));
+        matched = matched || keep;
+      }
+      if (keep) {
+        content.push(block);
+      }
+    }
+
+    return { ...section, content };
+  });
+
+  return { doc: { ...doc, primaryContentSections }, matched };
+}
+
+/**
+ * Format one guideline page
+ */
+function formatGuidancePage(page: GuidancePage, platform?: string): string {
+  const platformHeadings = getPlatformHeadings(page.doc);
+  const narrowed = platform ? narrowToPlatform(page.doc, platform) : { doc: page.doc, matched: true };
+  const doc = narrowed.doc;
+  const title = doc.metadata?.title || page.designPath;
+
+  let output = `# 🎨 Human Interface Guidelines: ${title}\n\n`;
+  output += `**Guidelines URL:** ${getDocumentationURL(doc.identifier?.url ?? `/design/${page.designPath}`)}\n`;
+  if (platformHeadings.length > 0) {
+    output += `**Platform Considerations:** ${platformHeadings.join(" · ")}\n`;
+  }
+  if (platform) {
+    output += `**Platform:** ${platform}\n`;
+  }
+  output += `\n`;
+
+  if (platform && !narrowed.matched) {
+    output += `> ℹ️ This page has no ${platform}-specific considerations; the general guidance applies.\n\n`;
+  }
+
+  if (doc.abstract && doc.abstract.length > 0) {
+    output += `${renderInline(doc.abstract, doc)}\n\n`;
+  }
+
+  output += renderPrimaryContentSections(doc);
+  output += renderSeeAlsoSections(doc);
+
+  output += `---\n`;
+  output += `*Guidelines fetched live from Apple Developer on ${new Date().toISOString().split('T')[0]}*\n`;
+
+  return output;
+}
+
+/**
+ * Format not found message
+ */
+function formatNotFound(topic: string): string {
+  let output = `# Human Interface Guidelines: ${topic}\n\n`;
+  output += `> ⚠️ Could not find guidelines for "${topic}"\n\n`;
+
+  if (OFFLINE) {
+    output += `> 📴 Offline mode is on (\`APPLE_DEV_MCP_OFFLINE\`), so only cached guidelines are available.\n\n`;
+  }
+
+  output += `## Suggestions\n\n`;
+  output += `1. Use a topic name (e.g., "Sheets", "Buttons", "Typography")\n`;
+  output += `2. Paste a guidelines URL (e.g., https://developer.apple.com/design/human-interface-guidelines/popovers)\n\n`;
+
+  output += `## Quick Links\n\n`;
+  output += `- [Human Interface Guidelines](https://developer.apple.com/design/human-interface-guidelines)\n`;
+
+  return output;
+}
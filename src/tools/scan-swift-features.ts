@@ -0,0 +1,259 @@
+/**
+ * Swift Feature Scanner
+ *
+ * Scans Swift source for syntax introduced by Swift Evolution proposals
+ * and works out the oldest compiler that can build it, with file:line
+ * evidence for every feature found.
+ */
+
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+
+import { compareVersions } from "../lib/availability.js";
+import { loadProposals, SwiftEvolutionProposal } from "../lib/swift-evolution.js";
+import { createLineLocator, maskCommentsAndStrings } from "../lib/swift-source.js";
+import { walkFiles } from "../lib/walk-files.js";
+
+interface FeatureRule {
+  proposal: string;
+  feature: string;
+  pattern: RegExp;
+}
+
+interface Evidence {
+  file: string;
+  line: number;
+  text: string;
+}
+
+interface FeatureHit {
+  rule: FeatureRule;
+  proposal?: SwiftEvolutionProposal;
+  // Released compiler version; unset for unreleased ("Next") or unknown proposals
+  version?: string;
+  evidence: Evidence[];
+}
+
+// Syntax tied to a proposal; patterns run over source with comments and strings blanked out
+const FEATURE_RULES: FeatureRule[] = [
+  // Swift 6.2
+  { proposal: "SE-0453", feature: "InlineArray", pattern: /\bInlineArray\s*</g },
+  { proposal: "SE-0447", feature: "Span", pattern: /\b(?:Mutable|Raw|MutableRaw)?Span\s*</g },
+  { proposal: "SE-0451", feature: "Raw identifiers", pattern: /`[^`\n]*[^A-Za-z0-9_`\n][^`\n]*`/g },
+  { proposal: "SE-0461", feature: "@concurrent / nonisolated(nonsending)", pattern: /@concurrent\b|\bnonisolated\s*\(\s*nonsending\s*\)/g },
+  { proposal: "SE-0466", feature: "Default actor isolation setting", pattern: /\.defaultIsolation\s*\(/g },
+  { proposal: "SE-0470", feature: "Isolated conformances", pattern: /\b(?:extension|struct|class|enum|actor)\s+[^{\n]*:\s*(?:[^{\n]*,\s*)?@MainActor\s+[A-Z]/g },
+  { proposal: "SE-0458", feature: "Strict memory safety annotations", pattern: /@unsafe\b|@safe\b/g },
+  { proposal: "SE-0472", feature: "Task.immediate", pattern: /\bTask\.immediate\b|\.addImmediateTask\b/g },
+  { proposal: "SE-0469", feature: "Task names", pattern: /\bTask\s*\(\s*name\s*:/g },
+
+  // Swift 6.1
+  { proposal: "SE-0439", feature: "Trailing commas in lists", pattern: /,\s*\)/g },
+  { proposal: "SE-0449", feature: "nonisolated types and extensions", pattern: /\bnonisolated\s+(?:struct|class|enum|extension|protocol)\b/g },
+
+  // Swift 6.0
+  { proposal: "SE-0413", feature: "Typed throws", pattern: /\bthrows\s*\(\s*[A-Za-z]/g },
+  { proposal: "SE-0427", feature: "Noncopyable generics", pattern: /(?:[<,]\s*\w+\s*:|\bwhere\s+\w+\s*:|&)\s*~Copyable\b/g },
+  { proposal: "SE-0430", feature: "sending parameters and results", pattern: /(?::|->)\s*sending\s+\S/g },
+  { proposal: "SE-0431", feature: "@isolated(any)", pattern: /@isolated\s*\(\s*any\s*\)/g },
+  { proposal: "SE-0420", feature: "#isolation", pattern: /#isolation\b/g },
+  { proposal: "SE-0409", feature: "Access-level imports", pattern: /^\s*(?:@\w+\s+)*(?:public|package|internal|fileprivate|private)\s+import\b/gm },
+  { proposal: "SE-0364", feature: "@retroactive", pattern: /@retroactive\b/g },
+  { proposal: "SE-0426", feature: "BitwiseCopyable", pattern: /\bBitwiseCopyable\b/g },
+  { proposal: "SE-0410", feature: "Synchronization (Atomic, Mutex)", pattern: /^\s*import\s+Synchronization\b/gm },
+
+  // Swift 5.10
+  { proposal: "SE-0412", feature: "nonisolated(unsafe)", pattern: /\bnonisolated\s*\(\s*unsafe\s*\)/g },
+
+  // Swift 5.9
+  { proposal: "SE-0380", feature: "if/switch expressions", pattern: /(?:[^=!<>]=|\breturn)\s*(?:if|switch)\b/g },
+  { proposal: "SE-0393", feature: "Parameter packs (each/repeat)", pattern: /\brepeat\s+(?:each\b|\()|[<,]\s*each\s+[A-Z]\w*/g },
+  { proposal: "SE-0390", feature: "~Copyable types", pattern: /~Copyable\b/g },
+  { proposal: "SE-0377", feature: "borrowing/consuming", pattern: /:\s*(?:borrowing|consuming)\s+[A-Z(\[]|\b(?:borrowing|consuming)\s+func\b/g },
+  { proposal: "SE-0366", feature: "consume operator", pattern: /(?:=|\(|,|\breturn)\s*consume\s+[A-Za-z_]/g },
+  { proposal: "SE-0395", feature: "@Observable", pattern: /@Observable\b/g },
+  { proposal: "SE-0382", feature: "Macros", pattern: /#(?!(?:if|elseif|else|endif|available|unavailable|selector|keyPath|file|fileID|filePath|line|column|function|dsohandle|warning|error|sourceLocation|colorLiteral|imageLiteral|fileLiteral|isolation)\b)[A-Za-z_]\w*|\bmacro\s+\w+\s*[(<]/g },
+  { proposal: "SE-0389", feature: "Attached macro declarations", pattern: /@attached\s*\(/g },
+  { proposal: "SE-0397", feature: "Freestanding declaration macros", pattern: /@freestanding\s*\(\s*declaration\b/g },
+  { proposal: "SE-0386", feature: "package access modifier", pattern: /^\s*(?:@\w+(?:\([^)]*\))?\s+)*package\s+(?:static\s+|final\s+)*(?:func|var|let|struct|class|enum|protocol|actor|init|typealias|subscript|extension)\b/gm },
+  { proposal: "SE-0381", feature: "Discarding task groups", pattern: /\bwith(?:Throwing)?DiscardingTaskGroup\b/g },
+  { proposal: "SE-0388", feature: "AsyncStream.makeStream", pattern: /\bAsync(?:Throwing)?Stream\s*(?:<[^>]*>)?\s*\.makeStream\b/g },
+
+  // Swift 5.7 and earlier
+  { proposal: "SE-0345", feature: "if let shorthand", pattern: /\b(?:if|guard|while)\s+(?:let|var)\s+[A-Za-z_]\w*\s*(?=,|\{|\belse\b)/g },
+  { proposal: "SE-0354", feature: "Regex literals", pattern: /#+\//g },
+  { proposal: "SE-0341", feature: "Opaque parameters (some P)", pattern: /[(,]\s*(?:\w+\s+)?\w+\s*:\s*(?:inout\s+)?some\s+[A-Z]/g },
+  { proposal: "SE-0346", feature: "Primary associated types (some Collection<T>)", pattern: /\b(?:some|any)\s+[A-Z]\w*</g },
+  { proposal: "SE-0335", feature: "any existentials", pattern: /\bany\s+[A-Z]\w*/g },
+  { proposal: "SE-0290", feature: "#unavailable", pattern: /#unavailable\b/g },
+  { proposal: "SE-0337", feature: "@preconcurrency", pattern: /@preconcurrency\b/g },
+  { proposal: "SE-0296", feature: "async/await", pattern: /\bawait\b|\)\s*async\b|\basync\s+(?:throws|->|\{)/g },
+  { proposal: "SE-0317", feature: "async let", pattern: /\basync\s+let\b/g },
+  { proposal: "SE-0306", feature: "Actors", pattern: /^\s*(?:(?:public|package|internal|fileprivate|private|final|distributed)\s+)*actor\s+[A-Z]/gm },
+  { proposal: "SE-0316", feature: "Global actors", pattern: /@MainActor\b|@globalActor\b/g },
+  { proposal: "SE-0302", feature: "Sendable", pattern: /@Sendable\b|\bSendable\b/g },
+  { proposal: "SE-0289", feature: "Result builders", pattern: /@resultBuilder\b/g },
+  { proposal: "SE-0258", feature: "Property wrapper declarations", pattern: /@propertyWrapper\b/g },
+  { proposal: "SE-0244", feature: "Opaque result types (some P)", pattern: /(?:->|\b(?:var|let)\s+\w+\s*:)\s*some\s+[A-Z]/g }
+];
+
+// Directories that hold build products or other people's code
+const SKIPPED_DIRECTORIES = new Set([".build", ".swiftpm", "DerivedData", "Pods", "Carthage", "node_modules", "build"]);
+
+// Keep a huge monorepo from stalling the server
+const MAX_FILES = 2000;
+const MAX_FILE_BYTES = 1024 * 1024;
+
+// Locations listed per feature
+const MAX_EVIDENCE = 5;
+
+/**
+ * Scan Swift files for language features and report the minimum Swift version
+ */
+export async function scanSwiftFeatures(target: string, toolsVersion?: string): Promise<string> {
+  const root = path.resolve(target);
+  const info = await stat(root).catch(() => null);
+  if (!info) {
+    return formatNotFound(target);
+  }
+
+  const files = info.isDirectory()
+    ? await walkFiles(root, { extension: ".swift", maxFiles: MAX_FILES, skipDirectories: SKIPPED_DIRECTORIES })
+    : [root];
+  const baseDir = info.isDirectory() ? root : path.dirname(root);
+  const declaredToolsVersion = toolsVersion ?? await readToolsVersion(baseDir);
+
+  const database = await loadProposals();
+  const proposals = new Map(database.proposals.map(p => [p.id, p]));
+  const hits = new Map<FeatureRule, FeatureHit>();
+
+  for (const file of files) {
+    const source = await readSource(file);
+    if (source === null) continue;
+
+    const masked = maskCommentsAndStrings(source);
+    const lines = source.split("\n");
+    const getLine = createLineLocator(masked);
+    for (const rule of FEATURE_RULES) {
+      // Several matches on one line are one piece of evidence
+      const seenLines = new Set<number>();
+      for (const match of masked.matchAll(rule.pattern)) {
+        const line = getLine(match.index ?? 0);
+        if (seenLines.has(line)) continue;
+        seenLines.add(line);
+        const hit = hits.get(rule) ?? createHit(rule, proposals.get(rule.proposal));
+        hit.evidence.push({ file: path.relative(baseDir, file) || path.basename(file), line, text: lines[line - 1]?.trim() ?? "" });
+        hits.set(rule, hit);
+      }
+    }
+  }
+
+  return formatScan(target, [...hits.values()], files.length, declaredToolsVersion);
+}
+
+/**
+ * Start collecting evidence for a rule
+ */
+function createHit(rule: FeatureRule, proposal: SwiftEvolutionProposal | undefined): FeatureHit {
+  const version = proposal?.swiftVersion;
+  return { rule, proposal, ...(version && /^\d/.test(version) ? { version } : {}), evidence: [] };
+}
+
+/**
+ * Read a source file, skipping anything too large to be hand-written
+ */
+async function readSource(file: string): Promise<string | null> {
+  try {
+    const info = await stat(file);
+    return info.size <= MAX_FILE_BYTES ? await readFile(file, "utf8") : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The swift-tools-version declared by Package.swift, if the directory has one
+ */
+async function readToolsVersion(dir: string): Promise<string | undefined> {
+  try {
+    const manifest = await readFile(path.join(dir, "Package.swift"), "utf8");
+    return manifest.match(/^\/\/\s*swift-tools-version\s*:\s*(\d+(?:\.\d+)*)/m)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format the features found, newest first
+ */
+function formatScan(target: string, hits: FeatureHit[], fileCount: number, toolsVersion?: string): string {
+  const versioned = hits.filter(h => h.version !== undefined);
+  versioned.sort((a, b) => compareVersions(b.version ?? "0", a.version ?? "0"));
+  const minimum = versioned[0]?.version;
+
+  let output = `# 🔍 Swift Feature Scan: ${target}\n\n`;
+  output += `**Files Scanned:** ${fileCount}${fileCount >= MAX_FILES ? " (limit reached; scan subdirectories for the rest)" : ""}\n`;
+  output += `**Minimum Swift Version:** ${minimum ?? "no version-specific features found"}\n`;
+  if (toolsVersion) {
+    output += `**swift-tools-version:** ${toolsVersion}\n`;
+  }
+  output += `\n`;
+
+  if (fileCount === 0) {
+    output += `> ⚠️ No .swift files found.\n`;
+    return output;
+  }
+
+  if (toolsVersion && minimum) {
+    const tooNew = versioned.filter(h => compareVersions(h.version ?? "0", toolsVersion) > 0);
+    if (tooNew.length > 0) {
+      output += `> ⚠️ The code needs Swift ${minimum}, but swift-tools-version ${toolsVersion} lets Swift ${toolsVersion} compilers build it. `;
+      output += `Raise the tools version or avoid: ${tooNew.map(h => h.rule.feature).join(", ")}.\n\n`;
+    } else {
+      output += `> ✅ Every feature found is available in Swift ${toolsVersion}.\n\n`;
+    }
+  }
+
+  if (hits.length === 0) {
+    return output;
+  }
+
+  output += `## Features Used\n\n`;
+  output += `| Feature | Proposal | Swift | First Use |\n`;
+  output += `|---------|----------|-------|-----------|\n`;
+  const ordered = [...versioned, ...hits.filter(h => !versioned.includes(h))];
+  for (const hit of ordered) {
+    const proposal = hit.proposal ? `[${hit.rule.proposal}](${hit.proposal.link})` : hit.rule.proposal;
+    const first = hit.evidence[0];
+    const more = hit.evidence.length > 1 ? ` (+${hit.evidence.length - 1})` : "";
+    output += `| ${hit.rule.feature} | ${proposal} | ${hit.proposal?.swiftVersion ?? "?"} | \`${first.file}:${first.line}\`${more} |\n`;
+  }
+  output += `\n`;
+
+  output += `## Evidence\n\n`;
+  for (const hit of ordered) {
+    output += `### ${hit.rule.feature} (${hit.rule.proposal}, Swift ${hit.proposal?.swiftVersion ?? "?"})\n\n`;
+    for (const evidence of hit.evidence.slice(0, MAX_EVIDENCE)) {
+      output += `- \`${evidence.file}:${evidence.line}\` — \`${evidence.text.replace(/`/g, "'").slice(0, 120)}\`\n`;
+    }
+    if (hit.evidence.length > MAX_EVIDENCE) {
+      output += `- …and ${hit.evidence.length - MAX_EVIDENCE} more\n`;
+    }
+    output += `\n`;
+  }
+
+  output += `---\n`;
+  output += `*Detection is pattern-based; run swift_evolution_check on a proposal for details.*\n`;
+
+  return output;
+}
+
+/**
+ * Format message for a path that doesn't exist
+ */
+function formatNotFound(target: string): string {
+  let output = `# Swift Feature Scan: ${target}\n\n`;
+  output += `> ⚠️ Could not read "${target}"\n\n`;
+  output += `Pass a .swift file or a directory (e.g. a package root or \`Sources/MyModule\`). Relative paths resolve from the server's working directory.\n`;
+  return output;
+}
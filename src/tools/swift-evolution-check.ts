@@ -5,262 +5,347 @@
  * Swift Evolution proposals to verify availability and usage.
  */
 
-interface SwiftEvolutionProposal {
-  id: string;
-  title: string;
-  status: "implemented" | "accepted" | "active-review" | "scheduled" | "returned" | "rejected" | "withdrawn";
+import { ProposalSection, readProposalSections } from "../lib/evolution-repo.js";
+import { FeatureBuildSettings, formatBuildSettings, getFeatureBuildSettings } from "../lib/feature-flags.js";
+import { getRevisionChain } from "../lib/proposal-graph.js";
+import { searchProposals } from "../lib/proposal-search.js";
+import {
+  compareSwiftVersions,
+  loadProposals,
+  normalizeSwiftVersion,
+  ProposalDatabase,
+  ProposalRelationKind,
+  ProposalStatus,
+  SwiftEvolutionProposal
+} from "../lib/swift-evolution.js";
+import { ToolOutput } from "../lib/tool-output.js";
+
+type MatchedProposal = SwiftEvolutionProposal & {
+  availableInTargetVersion?: boolean;
+  buildSettings?: FeatureBuildSettings;
+  sections?: ProposalSection[];
+  area?: string;
+  chain?: string[];
+};
+
+export interface SwiftEvolutionOutput {
+  feature?: string;
   swiftVersion?: string;
-  summary: string;
-  link: string;
-  keywords: string[];
-}
-
-// Curated list of important Swift Evolution proposals
-const SWIFT_EVOLUTION_DB: SwiftEvolutionProposal[] = [
-  // Swift 6.0 Features
-  {
-    id: "SE-0423",
-    title: "Dynamic actor isolation enforcement from non-strict-concurrency contexts",
-    status: "implemented",
-    swiftVersion: "6.0",
-    summary: "Enforces actor isolation dynamically when called from contexts without strict concurrency checking.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0423-dynamic-actor-isolation.md",
-    keywords: ["actor", "isolation", "concurrency", "dynamic"]
-  },
-  {
-    id: "SE-0420",
-    title: "Inheritance of actor isolation",
-    status: "implemented",
-    swiftVersion: "6.0",
-    summary: "Allows subclasses to inherit the actor isolation of their superclass methods.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0420-inheritance-of-actor-isolation.md",
-    keywords: ["actor", "isolation", "inheritance", "class"]
-  },
-  {
-    id: "SE-0414",
-    title: "Region-based isolation",
-    status: "implemented",
-    swiftVersion: "6.0",
-    summary: "Introduces region-based isolation to allow more flexible data sharing across concurrency domains.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0414-region-based-isolation.md",
-    keywords: ["region", "isolation", "sendable", "concurrency"]
-  },
-  {
-    id: "SE-0411",
-    title: "Isolated default value expressions",
-    status: "implemented",
-    swiftVersion: "6.0",
-    summary: "Allows default parameter values to be isolated to an actor.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0411-isolated-default-values.md",
-    keywords: ["default", "parameter", "actor", "isolation"]
-  },
-
-  // Swift 5.10 Features
-  {
-    id: "SE-0412",
-    title: "Strict concurrency for global variables",
-    status: "implemented",
-    swiftVersion: "5.10",
-    summary: "Requires global and static variables to be isolated to a global actor or be Sendable.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0412-strict-concurrency-for-global-variables.md",
-    keywords: ["global", "static", "concurrency", "sendable", "strict"]
-  },
-  {
-    id: "SE-0401",
-    title: "Remove Actor Isolation Inference caused by Property Wrappers",
-    status: "implemented",
-    swiftVersion: "5.10",
-    summary: "Property wrappers no longer infer actor isolation on the enclosing type.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0401-remove-property-wrapper-isolation.md",
-    keywords: ["property wrapper", "actor", "isolation", "inference"]
-  },
-
-  // Swift 5.9 Features
-  {
-    id: "SE-0395",
-    title: "Observation",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Introduces the @Observable macro for automatic change tracking in classes.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0395-observability.md",
-    keywords: ["@observable", "observable", "observation", "macro", "swiftui"]
-  },
-  {
-    id: "SE-0394",
-    title: "Package Manager Support for Custom Macros",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Allows Swift packages to define and distribute custom macros.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0394-swiftpm-expression-macros.md",
-    keywords: ["macro", "package", "spm", "swiftpm"]
-  },
-  {
-    id: "SE-0392",
-    title: "Custom Actor Executors",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Allows actors to customize their execution context.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0392-custom-actor-executors.md",
-    keywords: ["actor", "executor", "custom", "concurrency"]
-  },
-  {
-    id: "SE-0389",
-    title: "Attached Macros",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Macros that can be attached to declarations to generate additional code.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0389-attached-macros.md",
-    keywords: ["macro", "attached", "declaration", "codegen"]
-  },
-  {
-    id: "SE-0382",
-    title: "Expression Macros",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Macros that can be used in expression contexts (#stringify, etc.).",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0382-expression-macros.md",
-    keywords: ["macro", "expression", "#", "freestanding"]
-  },
-  {
-    id: "SE-0380",
-    title: "if and switch expressions",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Allows if and switch to be used as expressions that return values.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0380-if-switch-expressions.md",
-    keywords: ["if", "switch", "expression", "return"]
-  },
-  {
-    id: "SE-0393",
-    title: "Value and Type Parameter Packs",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Introduces variadic generics via parameter packs.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0393-parameter-packs.md",
-    keywords: ["parameter pack", "variadic", "generic", "each", "repeat"]
-  },
-  {
-    id: "SE-0390",
-    title: "Noncopyable structs and enums",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Introduces ~Copyable types that cannot be implicitly copied.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0390-noncopyable-structs-and-enums.md",
-    keywords: ["noncopyable", "~copyable", "move", "consume", "ownership"]
-  },
-
-  // Swift 5.7/5.8 Features
-  {
-    id: "SE-0352",
-    title: "Implicitly Opened Existentials",
-    status: "implemented",
-    swiftVersion: "5.7",
-    summary: "Existential types (any Protocol) can be implicitly opened when passed to generic functions.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0352-implicit-open-existentials.md",
-    keywords: ["existential", "any", "protocol", "generic", "open"]
-  },
-  {
-    id: "SE-0309",
-    title: "Unlock existential types for all protocols",
-    status: "implemented",
-    swiftVersion: "5.7",
-    summary: "Any protocol can now be used as an existential type with 'any'.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0309-unlock-existential-types-for-all-protocols.md",
-    keywords: ["existential", "any", "protocol", "self", "associated type"]
-  },
-  {
-    id: "SE-0345",
-    title: "if let shorthand for shadowing optionals",
-    status: "implemented",
-    swiftVersion: "5.7",
-    summary: "Allows 'if let x' as shorthand for 'if let x = x'.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0345-if-let-shorthand.md",
-    keywords: ["if let", "optional", "unwrap", "shorthand", "shadow"]
-  },
-  {
-    id: "SE-0326",
-    title: "Enable multi-statement closure parameter/result type inference",
-    status: "implemented",
-    swiftVersion: "5.7",
-    summary: "Closures with multiple statements can now have their parameter/result types inferred.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0326-extending-multi-statement-closure-type-inference.md",
-    keywords: ["closure", "inference", "multi-statement", "type"]
-  },
-
-  // nonisolated(unsafe) - Swift 5.10+
-  {
-    id: "SE-0412",
-    title: "nonisolated(unsafe)",
-    status: "implemented",
-    swiftVersion: "5.10",
-    summary: "Allows opting out of actor isolation checking for specific declarations when the programmer ensures thread safety manually.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0412-strict-concurrency-for-global-variables.md",
-    keywords: ["nonisolated", "unsafe", "actor", "isolation", "concurrency", "global"]
-  },
-
-  // Typed throws - Swift 6.0
-  {
-    id: "SE-0413",
-    title: "Typed throws",
-    status: "implemented",
-    swiftVersion: "6.0",
-    summary: "Allows functions to specify the exact error type they throw using 'throws(ErrorType)'.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0413-typed-throws.md",
-    keywords: ["throws", "typed throws", "error", "throwing", "typed"]
-  },
-
-  // Borrowing/Consuming
-  {
-    id: "SE-0377",
-    title: "borrowing and consuming parameter ownership modifiers",
-    status: "implemented",
-    swiftVersion: "5.9",
-    summary: "Allows explicit control over parameter ownership with borrowing and consuming modifiers.",
-    link: "https://github.com/swiftlang/swift-evolution/blob/main/proposals/0377-parameter-ownership-modifiers.md",
-    keywords: ["borrowing", "consuming", "ownership", "parameter", "move"]
-  }
+  whatsNewIn?: string;
+  upgradingFrom?: string;
+  proposals: MatchedProposal[];
+}
+
+// Proposal sections returned with includeDetails
+const DETAIL_SECTIONS = ["Motivation", "Detailed design"];
+
+// Results returned when no limit is given, and the most a caller can ask for
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 25;
+
+// Details are long; only fetch them for a narrow search
+const MAX_DETAILED_PROPOSALS = 3;
+
+// Detailed design sections can run to tens of thousands of characters
+const MAX_SECTION_LENGTH = 8000;
+
+// Statuses that can carry an implementing version; "accepted" covers "Next"
+const SHIPPED_STATUSES = new Set<ProposalStatus>(["implemented", "previewing", "accepted"]);
+
+// Release listings group proposals by the first area whose pattern matches the title or keywords
+const AREAS: Array<{ name: string; pattern: RegExp }> = [
+  { name: "Concurrency", pattern: /\b(actor|async|await|sendable|isolat|concurren|task|executor|nonisolated|continuation|clock|region)/ },
+  { name: "Macros", pattern: /\bmacro/ },
+  { name: "Ownership & Lifetimes", pattern: /(copyable|consum|borrow|ownership|lifetime|escapable|\bdiscard|\bmove\b)/ },
+  { name: "Generics & Type System", pattern: /\b(generic|protocol|existential|opaque|parameter pack|variadic|associated|conformance|typealias|metatype|key ?path)/ },
+  { name: "Standard Library", pattern: /\b(collection|sequence|string|array|dictionary|integer|int128|atomic|mutex|span|regex|unicode|standard library|stdlib|float|duration|range|vector)/ },
+  { name: "Interoperability", pattern: /(c\+\+|objective-c|\bobjc|interop)/ },
+  { name: "Packages & Modules", pattern: /\b(package|swiftpm|import|module|plugin|target|access level|language mode|upcoming feature|feature flag|compiler)/ }
 ];
+const DEFAULT_AREA = "Language";
+
+// Summaries in release listings are cut to their first sentence, at most this long
+const MAX_LISTING_SUMMARY = 200;
+
+const RELATION_LABELS: Record<ProposalRelationKind, string> = {
+  "superseded-by": "Superseded by",
+  "next-revision": "Revised as",
+  "supersedes": "Supersedes",
+  "previous-revision": "Previous revision",
+  "amended-by": "Amended by",
+  "amends": "Amends",
+  "related": "Related"
+};
+
+// Related proposals listed per match
+const MAX_RELATED = 8;
+
+// Statuses whose design isn't (or is no longer) headed into Swift
+const INACTIVE_STATUSES = new Set<ProposalStatus>(["returned", "rejected", "withdrawn"]);
 
 /**
  * Check Swift Evolution status for a feature
  */
 export async function checkSwiftEvolution(
-  feature: string,
-  swiftVersion?: string
-): Promise<string> {
-  const normalizedFeature = feature.toLowerCase();
-  
-  // Search for matching proposals
-  const matches = SWIFT_EVOLUTION_DB.filter(proposal => {
-    // Check keywords
-    const keywordMatch = proposal.keywords.some(kw => 
-      normalizedFeature.includes(kw.toLowerCase()) ||
-      kw.toLowerCase().includes(normalizedFeature)
-    );
-    
-    // Check title
-    const titleMatch = proposal.title.toLowerCase().includes(normalizedFeature);
-    
-    // Check proposal ID
-    const idMatch = proposal.id.toLowerCase() === normalizedFeature;
-    
-    return keywordMatch || titleMatch || idMatch;
-  });
+  feature: string | undefined,
+  swiftVersion?: string,
+  includeDetails: boolean = false,
+  limit: number = DEFAULT_LIMIT
+): Promise<ToolOutput<SwiftEvolutionOutput>> {
+  if (!feature?.trim()) {
+    return {
+      markdown: formatMissingQuery(),
+      data: { swiftVersion, proposals: [] }
+    };
+  }
+
+  const database = await loadProposals();
+  const maxResults = Math.min(MAX_LIMIT, Math.max(1, Math.floor(limit) || DEFAULT_LIMIT));
+
+  // Ranked best first
+  const matches = searchProposals(database.proposals, feature, maxResults).map(m => m.proposal);
+  const byId = new Map(database.proposals.map(p => [p.id, p]));
+
+  const detailed = includeDetails && matches.length <= MAX_DETAILED_PROPOSALS;
+  const proposals: MatchedProposal[] = await Promise.all(matches.map(async proposal => ({
+    ...proposal,
+    ...withBuildSettings(proposal),
+    ...withChain(proposal, byId),
+    ...(swiftVersion && proposal.swiftVersion
+      ? { availableInTargetVersion: compareSwiftVersions(swiftVersion, proposal.swiftVersion) >= 0 }
+      : {}),
+    ...(detailed ? { sections: await readProposalSections(getProposalFile(proposal), DETAIL_SECTIONS) } : {})
+  })));
 
   if (matches.length === 0) {
-    return formatNoMatch(feature, swiftVersion);
+    return {
+      markdown: formatNoMatch(feature, database, swiftVersion),
+      data: { feature, swiftVersion, proposals }
+    };
+  }
+
+  return {
+    markdown: formatMatches(proposals, feature, database, swiftVersion, includeDetails && !detailed),
+    data: { feature, swiftVersion, proposals }
+  };
+}
+
+/**
+ * List the proposals implemented in a Swift release, or gained moving between two
+ *
+ * A single version matches its patch releases too ("6.0" includes 6.0.3);
+ * a range includes everything after `upgradingFrom` up to `whatsNewIn`,
+ * which defaults to the latest release.
+ */
+export async function listSwiftChanges(
+  whatsNewIn?: string,
+  upgradingFrom?: string,
+  feature?: string
+): Promise<ToolOutput<SwiftEvolutionOutput>> {
+  const database = await loadProposals();
+  const shipped = database.proposals.filter(
+    (p): p is SwiftEvolutionProposal & { swiftVersion: string } => !!p.swiftVersion && SHIPPED_STATUSES.has(p.status)
+  );
+
+  const to = whatsNewIn ? normalizeSwiftVersion(whatsNewIn) : getLatestRelease(shipped);
+  const from = upgradingFrom ? normalizeSwiftVersion(upgradingFrom) : undefined;
+  if (!to || (upgradingFrom && !from)) {
+    return {
+      markdown: formatInvalidVersion(!to ? whatsNewIn ?? "" : upgradingFrom ?? "", shipped),
+      data: { feature, whatsNewIn, upgradingFrom, proposals: [] }
+    };
+  }
+
+  let changes = shipped.filter(p => from
+    ? compareSwiftVersions(p.swiftVersion, from) > 0 && isUpTo(p.swiftVersion, to)
+    : isInRelease(p.swiftVersion, to));
+  // A feature narrows the listing to an area ("concurrency") or to matching proposals
+  if (feature?.trim()) {
+    const query = feature.trim().toLowerCase();
+    const matched = new Set(searchProposals(changes, feature, changes.length).map(m => m.proposal.id));
+    changes = changes.filter(p => matched.has(p.id) || getProposalArea(p).toLowerCase().includes(query));
+  }
+
+  const proposals: MatchedProposal[] = changes
+    .map(proposal => ({ ...proposal, ...withBuildSettings(proposal), area: getProposalArea(proposal) }))
+    .sort((a, b) => compareSwiftVersions(a.swiftVersion, b.swiftVersion) || a.id.localeCompare(b.id));
+
+  return {
+    markdown: formatChanges(proposals, database, shipped, to, from, feature),
+    data: { ...(feature ? { feature } : {}), whatsNewIn: to, ...(from ? { upgradingFrom: from } : {}), proposals }
+  };
+}
+
+/**
+ * Format a release listing, grouped by area
+ */
+function formatChanges(
+  proposals: MatchedProposal[],
+  database: ProposalDatabase,
+  shipped: SwiftEvolutionProposal[],
+  to: string,
+  from?: string,
+  feature?: string
+): string {
+  let output = from
+    ? `# 🆕 Swift ${from} → ${to}\n\n`
+    : `# 🆕 What's New in Swift ${to}\n\n`;
+
+  if (feature?.trim()) {
+    output += `**Matching:** "${feature}"\n\n`;
+  }
+
+  if (proposals.length === 0) {
+    output += from
+      ? `No proposals were implemented after Swift ${from} up to Swift ${to}.\n\n`
+      : `No proposals were implemented in Swift ${to}.\n\n`;
+    output += formatKnownVersions(shipped);
+    output += `---\n*${formatSource(database)}*\n`;
+    return output;
+  }
+
+  const areas = [...AREAS.map(a => a.name), DEFAULT_AREA]
+    .map(name => ({ name, proposals: proposals.filter(p => p.area === name) }))
+    .filter(a => a.proposals.length > 0);
+
+  output += `**${proposals.length} proposal(s)** across ${areas.length} area(s)`;
+  output += from ? ` gained moving from Swift ${from} to ${to}.\n\n` : `.\n\n`;
+
+  if (from) {
+    const versions = [...new Set(proposals.map(p => p.swiftVersion ?? ""))];
+    output += `| Version | Proposals |\n`;
+    output += `|---------|-----------|\n`;
+    for (const version of versions) {
+      output += `| ${version} | ${proposals.filter(p => p.swiftVersion === version).length} |\n`;
+    }
+    output += `\n`;
+  }
+
+  for (const area of areas) {
+    output += `## ${area.name} (${area.proposals.length})\n\n`;
+    for (const proposal of area.proposals) {
+      output += `- ${getStatusEmoji(proposal.status)} [${proposal.id}](${proposal.link}) **${proposal.title}**`;
+      if (from) {
+        output += ` (Swift ${proposal.swiftVersion})`;
+      }
+      const summary = getFirstSentence(proposal.summary);
+      if (summary) {
+        output += ` — ${summary}`;
+      }
+      if (proposal.buildSettings) {
+        output += ` · ${proposal.buildSettings.kind} feature \`${proposal.buildSettings.flag}\``;
+      }
+      output += `\n`;
+    }
+    output += `\n`;
+  }
+
+  // Flags the release introduced, to adopt before their language mode
+  const allSettings = proposals
+    .map(p => p.buildSettings)
+    .filter((s): s is FeatureBuildSettings => s !== undefined);
+  if (allSettings.length > 0) {
+    output += `## Feature Flags (${allSettings.length})\n\n`;
+    output += formatBuildSettings(allSettings);
+  }
+
+  output += `---\n`;
+  output += `*${formatSource(database)}*\n`;
+
+  return output;
+}
+
+/**
+ * Explain a version that couldn't be read
+ */
+function formatInvalidVersion(version: string, shipped: SwiftEvolutionProposal[]): string {
+  let output = `# Swift Evolution: Unknown Version\n\n`;
+  output += `"${version}" isn't a Swift version. Use a release like \`5.10\`, \`6.0\` or \`6.0.3\`, or \`Next\` for implemented but unreleased proposals.\n\n`;
+  output += formatKnownVersions(shipped);
+  return output;
+}
+
+/**
+ * List the versions proposals were implemented in
+ */
+function formatKnownVersions(shipped: SwiftEvolutionProposal[]): string {
+  const versions = [...new Set(shipped.map(p => p.swiftVersion ?? ""))]
+    .filter(v => v)
+    .sort(compareSwiftVersions);
+  return versions.length > 0
+    ? `**Versions with implemented proposals:** ${versions.join(", ")}\n\n`
+    : "";
+}
+
+/**
+ * Whether a version belongs to a release, at the release's precision ("6.0.3" is in "6.0")
+ */
+function isInRelease(version: string, release: string): boolean {
+  if (release === "Next") {
+    return /^next$/i.test(version);
+  }
+  return compareSwiftVersions(truncateVersion(version, release), release) === 0;
+}
+
+/**
+ * Whether a version is at or before a release, counting its patch releases
+ */
+function isUpTo(version: string, release: string): boolean {
+  if (release === "Next") {
+    return true;
+  }
+  return compareSwiftVersions(truncateVersion(version, release), release) <= 0;
+}
+
+/**
+ * Cut a version to as many components as another ("6.0.3" at "6.0" -> "6.0")
+ */
+function truncateVersion(version: string, precision: string): string {
+  if (/^next$/i.test(version)) {
+    return version;
   }
+  return version.split(".").slice(0, precision.split(".").length).join(".");
+}
+
+/**
+ * The newest released Swift version, as major.minor
+ */
+function getLatestRelease(shipped: SwiftEvolutionProposal[]): string | undefined {
+  const latest = shipped
+    .map(p => p.swiftVersion ?? "")
+    .filter(v => /^\d/.test(v))
+    .sort(compareSwiftVersions)
+    .pop();
+  return latest ? normalizeSwiftVersion(latest.split(".").slice(0, 2).join(".")) : undefined;
+}
 
-  return formatMatches(matches, feature, swiftVersion);
+/**
+ * The area a proposal belongs to in release listings
+ */
+function getProposalArea(proposal: SwiftEvolutionProposal): string {
+  const text = `${proposal.title} ${proposal.keywords.join(" ")}`.toLowerCase();
+  return AREAS.find(a => a.pattern.test(text))?.name ?? DEFAULT_AREA;
+}
+
+/**
+ * First sentence of a summary, shortened for a one-line listing
+ */
+function getFirstSentence(summary: string): string {
+  const sentence = summary.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? summary;
+  return sentence.length > MAX_LISTING_SUMMARY
+    ? `${sentence.slice(0, MAX_LISTING_SUMMARY - 1).trimEnd()}…`
+    : sentence;
 }
 
 /**
  * Format matching proposals
  */
 function formatMatches(
-  matches: SwiftEvolutionProposal[],
+  matches: MatchedProposal[],
   feature: string,
-  swiftVersion?: string
+  database: ProposalDatabase,
+  swiftVersion?: string,
+  detailsSkipped: boolean = false
 ): string {
   let output = `# Swift Evolution: "${feature}"\n\n`;
 
@@ -269,6 +354,11 @@ function formatMatches(
   }
 
   output += `## Found ${matches.length} Related Proposal(s)\n\n`;
+  const byId = new Map(database.proposals.map(p => [p.id, p]));
+
+  if (detailsSkipped) {
+    output += `> ℹ️ Details are only included for up to ${MAX_DETAILED_PROPOSALS} proposals; search for a proposal number (e.g. "SE-0413") to include them.\n\n`;
+  }
 
   for (const proposal of matches) {
     const statusEmoji = getStatusEmoji(proposal.status);
@@ -278,13 +368,37 @@ function formatMatches(
     output += `|----------|-------|\n`;
     output += `| **Status** | ${proposal.status} |\n`;
     output += `| **Swift Version** | ${proposal.swiftVersion || "N/A"} |\n`;
+    if (proposal.authors && proposal.authors.length > 0) {
+      output += `| **Authors** | ${proposal.authors.join(", ")} |\n`;
+    }
+    if (proposal.reviewManagers && proposal.reviewManagers.length > 0) {
+      output += `| **Review Manager** | ${proposal.reviewManagers.join(", ")} |\n`;
+    }
+    if (proposal.implementation && proposal.implementation.length > 0) {
+      output += `| **Implementation** | ${proposal.implementation.join(", ")} |\n`;
+    }
+    if (proposal.upcomingFeatureFlag) {
+      const mode = proposal.upcomingFeatureFlag.enabledInLanguageMode;
+      output += `| **Upcoming Feature** | \`${proposal.upcomingFeatureFlag.flag}\`${mode ? ` (on in Swift ${mode} mode)` : ""} |\n`;
+    }
+    if (proposal.experimentalFeatureFlag) {
+      output += `| **Experimental Feature** | \`${proposal.experimentalFeatureFlag}\` |\n`;
+    }
     output += `| **Proposal** | [${proposal.id}](${proposal.link}) |\n\n`;
-    
+
+    output += formatCurrentDesign(proposal, byId);
+
     output += `**Summary:**\n${proposal.summary}\n\n`;
 
+    output += formatRelations(proposal, byId);
+
+    if (proposal.sections) {
+      output += formatSections(proposal);
+    }
+
     // Check version compatibility
     if (swiftVersion && proposal.swiftVersion) {
-      const isCompatible = compareVersions(swiftVersion, proposal.swiftVersion);
+      const isCompatible = compareSwiftVersions(swiftVersion, proposal.swiftVersion) >= 0;
       if (isCompatible) {
         output += `✅ **Available in Swift ${swiftVersion}**\n\n`;
       } else {
@@ -292,20 +406,146 @@ function formatMatches(
       }
     }
 
+    if (proposal.buildSettings) {
+      output += `**Enable \`${proposal.buildSettings.flag}\`:**\n\n`;
+      output += formatBuildSettings([proposal.buildSettings]);
+    }
+
     // Add usage example if available
     output += generateUsageExample(proposal);
     
     output += `---\n\n`;
   }
 
+  // Several flags: one block to adopt them together
+  const allSettings = [...new Map(matches
+    .map(p => p.buildSettings)
+    .filter((s): s is FeatureBuildSettings => s !== undefined)
+    .map(s => [s.flag, s])).values()];
+  if (allSettings.length > 1) {
+    output += `## Enable All ${allSettings.length} Features\n\n`;
+    output += formatBuildSettings(allSettings);
+    output += `---\n\n`;
+  }
+
   output += `## Resources\n\n`;
   output += `- [Swift Evolution Dashboard](https://apple.github.io/swift-evolution/)\n`;
   output += `- [Swift Evolution Proposals](https://github.com/swiftlang/swift-evolution/tree/main/proposals)\n`;
-  output += `- [Swift.org](https://www.swift.org/)\n`;
+  output += `- [Swift.org](https://www.swift.org/)\n\n`;
+
+  output += `---\n`;
+  output += `*${formatSource(database)}*\n`;
 
   return output;
 }
 
+/**
+ * Format the Introduction and requested sections of a proposal
+ */
+function formatSections(proposal: MatchedProposal): string {
+  let output = "";
+
+  if (proposal.introduction && proposal.introduction !== proposal.summary) {
+    output += `#### Introduction\n\n${proposal.introduction}\n\n`;
+  }
+
+  if (!proposal.sections || proposal.sections.length === 0) {
+    output += `> ⚠️ Could not read the proposal's ${DETAIL_SECTIONS.join(" and ")} sections; see the [full proposal](${proposal.link}).\n\n`;
+    return output;
+  }
+
+  for (const section of proposal.sections) {
+    const content = section.content.length > MAX_SECTION_LENGTH
+      ? `${section.content.slice(0, MAX_SECTION_LENGTH).trimEnd()}\n\n*… truncated; see the [full proposal](${proposal.link}).*`
+      : section.content;
+    // Sections are "##" in the proposal and "####" here; push their subheadings down to match
+    output += `#### ${section.title}\n\n${content.replace(/^(#{3,4}) /gm, "$1## ")}\n\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Point a returned, rejected or superseded proposal at the design that replaced it
+ */
+function formatCurrentDesign(proposal: MatchedProposal, byId: Map<string, SwiftEvolutionProposal>): string {
+  let output = "";
+
+  if (proposal.chain) {
+    const steps = proposal.chain.map(id => {
+      const step = byId.get(id);
+      const label = id === proposal.id ? `**${id}**` : step ? `[${id}](${step.link})` : id;
+      return step ? `${label} ${getStatusEmoji(step.status)}` : label;
+    });
+    output += `**Revision History:** ${steps.join(" → ")}\n\n`;
+  }
+
+  const currentId = proposal.chain?.[proposal.chain.length - 1];
+  if (currentId && currentId !== proposal.id) {
+    const current = byId.get(currentId);
+    const details = current ? ` (${current.status}${current.swiftVersion ? `, Swift ${current.swiftVersion}` : ""})` : "";
+    output += `> ⚠️ **Not the current design.** ${proposal.id} was replaced by ${current ? `[${currentId}](${current.link}): ${current.title}` : currentId}${details}; cite that proposal instead.\n\n`;
+  } else if (INACTIVE_STATUSES.has(proposal.status)) {
+    output += `> ⚠️ ${proposal.id} was ${proposal.status === "returned" ? "returned for revision" : proposal.status} and doesn't describe shipped Swift; no later revision is recorded.\n\n`;
+  }
+
+  const amendments = (proposal.relations ?? []).filter(r => r.kind === "amended-by");
+  if (amendments.length > 0) {
+    const links = amendments.map(r => {
+      const amendment = byId.get(r.id);
+      return amendment ? `[${r.id}](${amendment.link}) (${amendment.title})` : r.id;
+    });
+    output += `> ℹ️ Amended by ${links.join(", ")}; read them together for the current rules.\n\n`;
+  }
+
+  return output;
+}
+
+/**
+ * List the proposals a proposal supersedes, amends, revises or relates to
+ */
+function formatRelations(proposal: MatchedProposal, byId: Map<string, SwiftEvolutionProposal>): string {
+  const relations = proposal.relations ?? [];
+  if (relations.length === 0) {
+    return "";
+  }
+
+  let output = `**Related Proposals:**\n\n`;
+  for (const relation of relations.slice(0, MAX_RELATED)) {
+    const related = byId.get(relation.id);
+    output += related
+      ? `- ${RELATION_LABELS[relation.kind]}: [${relation.id}](${related.link}) ${related.title} (${getStatusEmoji(related.status)} ${related.status}${related.swiftVersion ? `, Swift ${related.swiftVersion}` : ""})\n`
+      : `- ${RELATION_LABELS[relation.kind]}: ${relation.id}\n`;
+  }
+  if (relations.length > MAX_RELATED) {
+    output += `- …and ${relations.length - MAX_RELATED} more\n`;
+  }
+  return `${output}\n`;
+}
+
+/**
+ * The proposal's revision chain, to spread into its match when it has one
+ */
+function withChain(proposal: SwiftEvolutionProposal, byId: Map<string, SwiftEvolutionProposal>): { chain?: string[] } {
+  const chain = getRevisionChain(proposal, byId);
+  return chain.length > 1 ? { chain } : {};
+}
+
+/**
+ * The proposal's feature flag settings, to spread into its match
+ */
+function withBuildSettings(proposal: SwiftEvolutionProposal): { buildSettings?: FeatureBuildSettings } {
+  const buildSettings = getFeatureBuildSettings(proposal);
+  return buildSettings ? { buildSettings } : {};
+}
+
+/**
+ * File name of a proposal document, e.g. 0413-typed-throws.md
+ */
+function getProposalFile(proposal: SwiftEvolutionProposal): string {
+  return proposal.link.split("/").pop() ?? "";
+}
+
 /**
  * Generate usage examples for proposals
  */
@@ -456,8 +696,10 @@ function getStatusEmoji(status: string): string {
   switch (status) {
     case "implemented": return "✅";
     case "accepted": return "🟢";
+    case "previewing": return "🧪";
     case "active-review": return "🔵";
     case "scheduled": return "📅";
+    case "awaiting-review": return "⏳";
     case "returned": return "🔙";
     case "rejected": return "❌";
     case "withdrawn": return "⬅️";
@@ -466,25 +708,22 @@ function getStatusEmoji(status: string): string {
 }
 
 /**
- * Compare Swift versions
+ * Explain a call with nothing to search or list
  */
-function compareVersions(target: string, required: string): boolean {
-  const parseVersion = (v: string) => v.split(".").map(Number);
-  const [targetMajor, targetMinor = 0] = parseVersion(target);
-  const [reqMajor, reqMinor = 0] = parseVersion(required);
-  
-  if (targetMajor > reqMajor) return true;
-  if (targetMajor < reqMajor) return false;
-  return targetMinor >= reqMinor;
+function formatMissingQuery(): string {
+  let output = `# Swift Evolution\n\n`;
+  output += `> ⚠️ feature, whatsNewIn or upgradingFrom is required\n\n`;
+  output += `Pass a \`feature\` to search proposals (\`"typed throws"\`, \`"SE-0413"\`), or \`whatsNewIn\` (and optionally \`upgradingFrom\`) to list what a release added.\n`;
+  return output;
 }
 
 /**
  * Format no match found message
  */
-function formatNoMatch(feature: string, swiftVersion?: string): string {
+function formatNoMatch(feature: string, database: ProposalDatabase, swiftVersion?: string): string {
   let output = `# Swift Evolution: "${feature}"\n\n`;
   output += `## ❓ No Exact Match Found\n\n`;
-  output += `The feature "${feature}" wasn't found in the local Swift Evolution database.\n\n`;
+  output += `The feature "${feature}" wasn't found in the ${database.proposals.length} Swift Evolution proposals searched.\n\n`;
 
   output += `## Suggestions\n\n`;
   output += `1. **Search Swift Evolution directly:**\n`;
@@ -507,3 +746,17 @@ function formatNoMatch(feature: string, swiftVersion?: string): string {
 
   return output;
 }
+
+/**
+ * Describe where the proposal data came from
+ */
+function formatSource(database: ProposalDatabase): string {
+  switch (database.source) {
+    case "local":
+      return `Proposal data from the local swift-evolution clone (${database.proposals.length} proposals)`;
+    case "feed":
+      return `Proposal data from the Swift Evolution metadata feed (${database.proposals.length} proposals)`;
+    default:
+      return `Proposal data from the bundled snapshot (${database.proposals.length} proposals); the Swift Evolution feed could not be reached`;
+  }
+}
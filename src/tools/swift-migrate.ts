@@ -0,0 +1,643 @@
+/**
+ * Swift Migration Assistant
+ *
+ * Rewrites legacy Swift patterns to the language features that replaced
+ * them, returning the migrated snippet, a unified diff and the caveats
+ * that need a human look, each tied to its Swift Evolution proposal.
+ */
+
+import { loadProposals, SwiftEvolutionProposal } from "../lib/swift-evolution.js";
+import { maskCommentsAndStrings } from "../lib/swift-source.js";
+import { createUnifiedDiff } from "../lib/unified-diff.js";
+
+type MigrationTarget = "observable" | "async-await" | "main-actor" | "if-let-shorthand" | "main-attribute";
+
+interface Migration {
+  target: MigrationTarget;
+  name: string;
+  proposal: string;
+  migrate: (code: string) => MigrationResult;
+}
+
+interface MigrationResult {
+  code: string;
+  changes: number;
+  caveats: Caveat[];
+}
+
+interface Caveat {
+  proposal: string;
+  text: string;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Segment {
+  start: number;
+  end: number;
+}
+
+// How a completion handler's arguments map onto an async result
+interface CallbackShape {
+  kind: "none" | "value" | "result" | "error" | "pair";
+  throws: boolean;
+  returnType?: string;
+}
+
+const MIGRATIONS: Migration[] = [
+  { target: "observable", name: "ObservableObject → @Observable", proposal: "SE-0395", migrate: migrateObservable },
+  { target: "async-await", name: "Completion handlers → async/await", proposal: "SE-0296", migrate: migrateCompletionHandlers },
+  { target: "main-actor", name: "DispatchQueue.main → @MainActor", proposal: "SE-0316", migrate: migrateMainQueue },
+  { target: "if-let-shorthand", name: "if let x = x → if let x", proposal: "SE-0345", migrate: migrateIfLetShorthand },
+  { target: "main-attribute", name: "@UIApplicationMain → @main", proposal: "SE-0383", migrate: migrateMainAttribute }
+];
+
+// Patterns run over the snippet with comments and strings blanked out
+const OBSERVABLE_CLASS = /\bclass\s+([A-Za-z_]\w*)(\s*<[^>{]*>)?\s*:([^{]*)\{/g;
+const FUNC_DECLARATION = /\bfunc\s+([A-Za-z_]\w*)\s*(?:<[^>{]*>)?\s*\(/g;
+const FUNC_TAIL = /(\s*)(throws|rethrows)?(\s*->[^{]*?)?(\s*where\b[^{]*?)?\s*\{/y;
+const CALLBACK_PARAMETER = /^(?:([A-Za-z_]\w*)\s+)?([A-Za-z_]\w*)\s*:\s*((?:@\w+\s+)*@escaping\s+(?:@\w+\s+)*)\(([\s\S]*)\)\s*->\s*(?:Void|\(\s*\))$/;
+const ERROR_TYPE = /^(?:\(\s*any\s+(?:Swift\.)?Error\s*\)|(?:Swift\.)?Error)\?$/;
+const MAIN_ASYNC = /\bDispatchQueue\.main\.async\s*\{(?:(\s*\[[^\]\n]*\])\s*in\b)?/g;
+const MAIN_ASYNC_AFTER = /\bDispatchQueue\.main\.asyncAfter\s*\(\s*deadline\s*:\s*\.now\(\)\s*\+\s*(\.\w+\s*\(\s*[\w.]+\s*\)|[\w.]+)\s*\)\s*\{(?:(\s*\[[^\]\n]*\])\s*in\b)?/g;
+const IF_LET_REDUNDANT = /(\b(?:if|guard|while)\s+|,\s*)((?:let|var)\s+([A-Za-z_]\w*))\s*=\s*\3\b(?!\s*(?:as\b|\?\?|[.?!(\[]))/g;
+const ACCESS_MODIFIERS = /(?:(?:private|fileprivate|internal|public|package|open)(?:\(set\))?\s+)*/.source;
+
+// Braces that open a statement block rather than a closure
+const CONTROL_BLOCK = /^(?:\}\s*)?(?:if|else|guard|for|while|switch|do|catch|repeat|defer)\b|\belse\s*$/;
+
+// Longest code excerpt quoted in a caveat
+const MAX_EXCERPT = 80;
+
+/**
+ * Rewrite a snippet to modern Swift, for one target or every migration
+ */
+export async function migrateSwift(code: string, target?: string): Promise<string> {
+  const selected = target ? MIGRATIONS.filter(m => m.target === target) : MIGRATIONS;
+  if (selected.length === 0) {
+    return formatUnknownTarget(target ?? "");
+  }
+
+  let migrated = code;
+  const applied: Array<{ migration: Migration; changes: number }> = [];
+  const caveats: Caveat[] = [];
+  for (const migration of selected) {
+    const result = migration.migrate(migrated);
+    if (result.changes > 0) {
+      migrated = result.code;
+      applied.push({ migration, changes: result.changes });
+    }
+    caveats.push(...result.caveats);
+  }
+
+  const database = await loadProposals();
+  const proposals = new Map(database.proposals.map(p => [p.id, p]));
+  return formatMigration(code, migrated, applied, caveats, selected, proposals, target);
+}
+
+/**
+ * ObservableObject classes to @Observable, with the SwiftUI property wrappers that observe them
+ */
+function migrateObservable(code: string): MigrationResult {
+  const masked = maskCommentsAndStrings(code);
+  const edits: Edit[] = [];
+  const caveats: Caveat[] = [];
+  let classes = 0;
+
+  for (const match of masked.matchAll(OBSERVABLE_CLASS)) {
+    const inheritance = match[3];
+    if (!/\bObservableObject\b/.test(inheritance)) continue;
+
+    const start = match.index ?? 0;
+    const brace = start + match[0].length - 1;
+    const listStart = brace - inheritance.length;
+    if (/\bwhere\b/.test(inheritance)) {
+      caveats.push({ proposal: "SE-0395", text: `\`${match[1]}\` has a \`where\` clause; remove \`ObservableObject\` and add \`@Observable\` by hand.` });
+      continue;
+    }
+
+    const remaining = splitTopLevel(masked, listStart, brace)
+      .map(s => code.slice(s.start, s.end))
+      .filter(type => !/^(?:Combine\.)?ObservableObject$/.test(type));
+    if (remaining.length > 0) {
+      edits.push({ start: listStart, end: brace, text: ` ${remaining.join(", ")} ` });
+    } else {
+      // Drop the colon too, and the space before it
+      let colon = listStart - 1;
+      while (colon > 0 && /\s/.test(masked[colon - 1])) colon--;
+      edits.push({ start: colon, end: brace, text: " " });
+    }
+
+    const lineStart = masked.lastIndexOf("\n", start - 1) + 1;
+    const indent = getIndent(code, start);
+    edits.push({ start: lineStart + indent.length, end: lineStart + indent.length, text: `@Observable\n${indent}` });
+    classes++;
+  }
+
+  let published = 0;
+  for (const match of masked.matchAll(/@Published\s+/g)) {
+    edits.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, text: "" });
+    published++;
+  }
+
+  let stateObjects = 0;
+  for (const match of masked.matchAll(/@StateObject\b/g)) {
+    edits.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, text: "@State" });
+    stateObjects++;
+  }
+
+  // Views that bind to an observed model's properties ($model.name) need @Bindable
+  let observed = 0;
+  const declaration = new RegExp(`${ACCESS_MODIFIERS}(?:var|let)\\s+([A-Za-z_]\\w*)`, "y");
+  for (const match of masked.matchAll(/@ObservedObject\s+/g)) {
+    const end = (match.index ?? 0) + match[0].length;
+    declaration.lastIndex = end;
+    const name = declaration.exec(masked)?.[1];
+    const bound = name !== undefined && new RegExp(`\\$${name}\\b`).test(masked);
+    edits.push({ start: match.index ?? 0, end, text: bound ? "@Bindable " : "" });
+    observed++;
+  }
+
+  let environment = 0;
+  const environmentObject = new RegExp(`@EnvironmentObject(\\s+${ACCESS_MODIFIERS}var\\s+[A-Za-z_]\\w*\\s*:\\s*)([A-Za-z_][\\w.]*)`, "g");
+  for (const match of masked.matchAll(environmentObject)) {
+    const start = match.index ?? 0;
+    const declarationStart = start + "@EnvironmentObject".length;
+    edits.push({ start, end: start + match[0].length, text: `@Environment(${match[2]}.self)${code.slice(declarationStart, declarationStart + match[1].length)}${match[2]}` });
+    environment++;
+  }
+  for (const match of masked.matchAll(/\.environmentObject\s*\(/g)) {
+    edits.push({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, text: ".environment(" });
+    environment++;
+  }
+
+  const changes = classes + published + stateObjects + observed + environment;
+  if (changes === 0) {
+    return { code, changes, caveats };
+  }
+
+  caveats.push({ proposal: "SE-0395", text: "`@Observable` needs Swift 5.9 and iOS 17, macOS 14, tvOS 17 or watchOS 10; keep `ObservableObject` for earlier deployment targets." });
+  if (classes > 0) {
+    caveats.push({ proposal: "SE-0395", text: "Every stored property is now observed, not just the `@Published` ones; mark properties views shouldn't track `@ObservationIgnored`." });
+    if (!/^\s*import\s+(?:SwiftUI|Observation)\b/m.test(masked)) {
+      caveats.push({ proposal: "SE-0395", text: "Add `import Observation` to files that don't import SwiftUI." });
+    }
+  }
+  if (/\blazy\s+var\b/.test(masked)) {
+    caveats.push({ proposal: "SE-0395", text: "`@Observable` classes can't have `lazy` properties; initialize them eagerly or mark them `@ObservationIgnored`." });
+  }
+  if (/\bobjectWillChange\b|\.\$[A-Za-z_]/.test(masked)) {
+    caveats.push({ proposal: "SE-0395", text: "The snippet uses Combine publishers (`objectWillChange`, `model.$property`) that `@Observable` doesn't provide; use `withObservationTracking` or publish those values yourself." });
+  }
+  if (/^\s*import\s+Combine\b/m.test(masked)) {
+    caveats.push({ proposal: "SE-0395", text: "`import Combine` may no longer be needed." });
+  }
+  if (stateObjects > 0) {
+    caveats.push({ proposal: "SE-0395", text: "Unlike `@StateObject`, `@State` evaluates its initial value every time the view is created; move expensive setup into `.task` or pass the model in." });
+  }
+  if (observed > 0) {
+    caveats.push({ proposal: "SE-0395", text: "`@ObservedObject` properties became plain properties, or `@Bindable` where the view binds to the model with `$`." });
+  }
+  if (environment > 0) {
+    caveats.push({ proposal: "SE-0395", text: "Models are now injected with `.environment(model)` and read with `@Environment(Model.self)`; use `@Bindable var model = model` in `body` to bind to one." });
+  }
+
+  return { code: applyEdits(code, edits), changes, caveats };
+}
+
+/**
+ * Functions that report through a trailing completion handler to async functions
+ */
+function migrateCompletionHandlers(code: string): MigrationResult {
+  const masked = maskCommentsAndStrings(code);
+  const edits: Edit[] = [];
+  const caveats: Caveat[] = [];
+  const converted: Array<{ name: string; throws: boolean }> = [];
+  let changes = 0;
+
+  for (const match of masked.matchAll(FUNC_DECLARATION)) {
+    const name = match[1];
+    const open = (match.index ?? 0) + match[0].length - 1;
+    const close = findClosing(masked, open);
+    if (close === -1) continue;
+
+    const params = splitTopLevel(masked, open + 1, close);
+    const last = params[params.length - 1];
+    const callback = last ? code.slice(last.start, last.end).match(CALLBACK_PARAMETER) : null;
+    if (!last || !callback) continue;
+
+    const handler = callback[2];
+    const shape = getCallbackShape(callback[4]);
+    if (!shape) {
+      caveats.push({ proposal: "SE-0296", text: `\`${name}\`: a \`(${collapse(callback[4])}) -> Void\` completion handler doesn't map onto an async result; convert it by hand.` });
+      continue;
+    }
+
+    FUNC_TAIL.lastIndex = close + 1;
+    const tail = FUNC_TAIL.exec(masked);
+    if (!tail) continue;
+    if (tail[3] || tail[2] === "rethrows") {
+      caveats.push({ proposal: "SE-0296", text: `\`${name}\` returns a value or rethrows as well as calling \`${handler}\`; convert it by hand.` });
+      continue;
+    }
+
+    const bodyOpen = FUNC_TAIL.lastIndex - 1;
+    const bodyClose = findClosing(masked, bodyOpen);
+    if (bodyClose === -1) continue;
+
+    const throws = shape.throws || tail[2] === "throws";
+    const where = tail[4] ? ` ${tail[4].trim()}` : "";
+    const effects = ` async${throws ? " throws" : ""}${shape.returnType ? ` -> ${shape.returnType}` : ""}${where} `;
+    const previous = params[params.length - 2];
+    edits.push(previous
+      ? { start: previous.end, end: last.end, text: "" }
+      : { start: open + 1, end: close, text: "" });
+    edits.push({ start: close + 1, end: bodyOpen, text: effects });
+
+    const handled = new Set<number>();
+    const calls = new RegExp(`(\\breturn\\s+)?\\b${handler}\\s*\\(`, "g");
+    calls.lastIndex = bodyOpen + 1;
+    for (let call = calls.exec(masked); call && call.index < bodyClose; call = calls.exec(masked)) {
+      const callStart = call.index;
+      const nameStart = callStart + (call[1]?.length ?? 0);
+      handled.add(nameStart);
+      const argsOpen = callStart + call[0].length - 1;
+      const argsClose = findClosing(masked, argsOpen);
+      if (argsClose === -1) continue;
+      const excerpt = getExcerpt(code, nameStart, argsClose + 1);
+
+      if (isInClosure(masked, bodyOpen, callStart)) {
+        caveats.push({ proposal: "SE-0296", text: `\`${name}\`: \`${excerpt}\` runs inside a closure; await an async version of that API, or bridge it with \`withCheckedThrowingContinuation\`.` });
+        continue;
+      }
+
+      const args = splitTopLevel(masked, argsOpen + 1, argsClose).map(s => ({ code: code.slice(s.start, s.end), masked: masked.slice(s.start, s.end) }));
+      const statement = isStatementStart(masked, bodyOpen, callStart) ? getCompletionStatement(shape, args) : undefined;
+      if (statement === undefined) {
+        caveats.push({ proposal: "SE-0296", text: `\`${name}\`: couldn't convert \`${excerpt}\`; return or throw its result by hand.` });
+        continue;
+      }
+
+      // A bare `return` right after the call is now unreachable
+      const trailing = /[ \t]*(?:;[ \t]*|\n[ \t]*)return(?=[ \t]*(?:\n|;|\}|$))/y;
+      trailing.lastIndex = argsClose + 1;
+      const end = trailing.exec(masked) && trailing.lastIndex <= bodyClose ? trailing.lastIndex : argsClose + 1;
+
+      // So is a `return` that ends the function; drop its line
+      const lineStart = masked.lastIndexOf("\n", callStart - 1) + 1;
+      if (statement === "return" && masked.slice(end, bodyClose).trim() === "" && masked.slice(lineStart, callStart).trim() === "") {
+        edits.push({ start: lineStart, end: masked.indexOf("\n", end) === -1 ? end : masked.indexOf("\n", end) + 1, text: "" });
+      } else {
+        edits.push({ start: callStart, end, text: statement });
+      }
+      changes++;
+    }
+
+    // Any other use: stored, passed along, captured
+    for (const use of masked.slice(bodyOpen, bodyClose).matchAll(new RegExp(`\\b${handler}\\b`, "g"))) {
+      if (!handled.has(bodyOpen + (use.index ?? 0))) {
+        caveats.push({ proposal: "SE-0296", text: `\`${name}\` uses \`${handler}\` other than by calling it; rework that code by hand.` });
+        break;
+      }
+    }
+
+    converted.push({ name, throws });
+    changes++;
+  }
+
+  if (converted.length > 0) {
+    const calls = converted.map(f => `\`${f.throws ? "try " : ""}await ${f.name}(...)\``).join(", ");
+    caveats.push({ proposal: "SE-0296", text: `Callers now use ${calls} from an async context (such as a \`Task\`); keep completion-handler overloads marked \`@available(*, deprecated, renamed:)\` while they move over.` });
+    caveats.push({ proposal: "SE-0296", text: "Async functions resume on their caller's executor, not the queue the handler used to be called on; mark them or their type `@MainActor` if it was the main queue." });
+  }
+
+  return { code: applyEdits(code, edits), changes, caveats };
+}
+
+/**
+ * DispatchQueue.main hops to main-actor tasks
+ */
+function migrateMainQueue(code: string): MigrationResult {
+  const masked = maskCommentsAndStrings(code);
+  const edits: Edit[] = [];
+  const caveats: Caveat[] = [];
+
+  for (const match of masked.matchAll(MAIN_ASYNC)) {
+    const start = match.index ?? 0;
+    const capture = match[1] ? ` ${match[1].trim()}` : "";
+    edits.push({ start, end: start + match[0].length, text: `Task { @MainActor${capture} in` });
+  }
+
+  for (const match of masked.matchAll(MAIN_ASYNC_AFTER)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    const capture = match[2] ? ` ${match[2].trim()}` : "";
+    // DispatchTimeInterval cases (.milliseconds(300)) are also Duration's; a bare number is seconds
+    const delay = match[1].startsWith(".") ? match[1].replace(/\s+/g, "") : `.seconds(${match[1]})`;
+    const bodyIndent = getBodyIndent(code, start, end);
+    edits.push({ start, end, text: `Task { @MainActor${capture} in\n${bodyIndent}try? await Task.sleep(for: ${delay})` });
+  }
+
+  for (const match of masked.matchAll(/\bDispatchQueue\.main\.sync\b/g)) {
+    caveats.push({ proposal: "SE-0316", text: `\`${getExcerpt(code, match.index ?? 0, (match.index ?? 0) + match[0].length)}\` was left as is; use \`await MainActor.run { }\` from async code or \`MainActor.assumeIsolated { }\` when already on the main thread.` });
+  }
+  if (/\bDispatchQueue\.main\.async(?:After)?\s*\(/.test(masked.replace(MAIN_ASYNC_AFTER, ""))) {
+    caveats.push({ proposal: "SE-0316", text: "Some `DispatchQueue.main` calls (`execute:` arguments, non-`.now()` deadlines) were left as is; convert them by hand." });
+  }
+
+  const changes = edits.length;
+  if (changes > 0) {
+    caveats.push({ proposal: "SE-0316", text: "`Task { @MainActor in }` runs after the current main-actor work, like `DispatchQueue.main.async`, but isn't ordered with other queue work; code that relied on FIFO order with the queue needs a second look." });
+    caveats.push({ proposal: "SE-0316", text: "If a type only touches UI from these hops, annotate it `@MainActor` and call its methods directly instead." });
+  }
+
+  return { code: applyEdits(code, edits), changes, caveats };
+}
+
+/**
+ * `if let x = x` to `if let x`, in if, guard and while conditions
+ */
+function migrateIfLetShorthand(code: string): MigrationResult {
+  const masked = maskCommentsAndStrings(code);
+  const edits: Edit[] = [];
+
+  for (const match of masked.matchAll(IF_LET_REDUNDANT)) {
+    const start = (match.index ?? 0) + match[1].length;
+    edits.push({ start, end: (match.index ?? 0) + match[0].length, text: code.slice(start, start + match[2].length) });
+  }
+
+  const changes = edits.length;
+  const caveats: Caveat[] = changes > 0
+    ? [{ proposal: "SE-0345", text: "The shorthand needs Swift 5.7; conditions that unwrap into a different name or a property (`if let x = self.x`) are unchanged." }]
+    : [];
+  return { code: applyEdits(code, edits), changes, caveats };
+}
+
+/**
+ * @UIApplicationMain and @NSApplicationMain to @main
+ */
+function migrateMainAttribute(code: string): MigrationResult {
+  const masked = maskCommentsAndStrings(code);
+  const edits: Edit[] = [...masked.matchAll(/@(?:UI|NS)ApplicationMain\b/g)]
+    .map(match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length, text: "@main" }));
+
+  const changes = edits.length;
+  const caveats: Caveat[] = changes > 0
+    ? [{ proposal: "SE-0383", text: "`@UIApplicationMain` and `@NSApplicationMain` are deprecated and an error in the Swift 6 language mode; `@main` works the same for app delegates." }]
+    : [];
+  return { code: applyEdits(code, edits), changes, caveats };
+}
+
+/**
+ * Map a completion handler's parameter list to the async signature that replaces it
+ */
+function getCallbackShape(parameters: string): CallbackShape | undefined {
+  const types = splitTopLevel(parameters, 0, parameters.length)
+    .map(s => parameters.slice(s.start, s.end).replace(/^(?:[A-Za-z_]\w*\s+)?[A-Za-z_]\w*\s*:\s*/, "").trim());
+  const isVoid = (type: string) => /^(?:Void|\(\s*\))$/.test(type);
+
+  if (types.length === 0) {
+    return { kind: "none", throws: false };
+  }
+  if (types.length === 1) {
+    const result = types[0].match(/^(?:Swift\.)?Result\s*<([\s\S]+)>$/);
+    if (result) {
+      const [success] = splitTopLevel(result[1], 0, result[1].length).map(s => result[1].slice(s.start, s.end));
+      return { kind: "result", throws: true, ...(success && !isVoid(success) ? { returnType: success } : {}) };
+    }
+    if (ERROR_TYPE.test(types[0])) {
+      return { kind: "error", throws: true };
+    }
+    return { kind: "value", throws: false, returnType: types[0] };
+  }
+  if (types.length === 2 && types[0].endsWith("?") && ERROR_TYPE.test(types[1])) {
+    return { kind: "pair", throws: true, returnType: types[0].slice(0, -1) };
+  }
+  return undefined;
+}
+
+/**
+ * The return or throw that replaces a completion handler call
+ */
+function getCompletionStatement(shape: CallbackShape, args: Array<{ code: string; masked: string }>): string | undefined {
+  const value = (text: string) => /^(?:\(\s*\))?$/.test(text) ? "return" : `return ${text}`;
+
+  switch (shape.kind) {
+    case "none":
+      return args.length === 0 ? "return" : undefined;
+    case "value":
+      return args.length === 1 ? `return ${args[0].code}` : undefined;
+    case "error":
+      if (args.length !== 1) return undefined;
+      return args[0].code === "nil" ? "return" : `throw ${args[0].code}`;
+    case "pair":
+      if (args.length !== 2) return undefined;
+      if (args[1].code === "nil" && args[0].code !== "nil") return `return ${args[0].code}`;
+      if (args[0].code === "nil" && args[1].code !== "nil") return `throw ${args[1].code}`;
+      return undefined;
+    case "result": {
+      if (args.length !== 1) return undefined;
+      const success = unwrapCase(args[0], "success");
+      if (success !== undefined) return value(success);
+      const failure = unwrapCase(args[0], "failure");
+      if (failure !== undefined) return `throw ${failure}`;
+      return `return try ${args[0].code}.get()`;
+    }
+  }
+}
+
+/**
+ * The payload of `.name(payload)` when that's the whole argument
+ */
+function unwrapCase(arg: { code: string; masked: string }, name: string): string | undefined {
+  const prefix = arg.masked.match(new RegExp(`^\\.${name}\\s*\\(`));
+  if (!prefix || findClosing(arg.masked, prefix[0].length - 1) !== arg.masked.length - 1) {
+    return undefined;
+  }
+  return arg.code.slice(prefix[0].length, -1).trim();
+}
+
+/**
+ * Whether an offset starts a statement: after a brace, semicolon or line break
+ */
+function isStatementStart(masked: string, from: number, offset: number): boolean {
+  return /(?:^|[{};\n])\s*$/.test(masked.slice(from, offset));
+}
+
+/**
+ * Whether an offset sits inside a closure opened after `from`
+ */
+function isInClosure(masked: string, from: number, offset: number): boolean {
+  const open: boolean[] = [];
+  for (let i = from + 1; i < offset; i++) {
+    if (masked[i] === "{") {
+      const lineStart = masked.lastIndexOf("\n", i - 1) + 1;
+      open.push(!CONTROL_BLOCK.test(masked.slice(lineStart, i).trim()));
+    } else if (masked[i] === "}") {
+      open.pop();
+    }
+  }
+  return open.some(closure => closure);
+}
+
+/**
+ * Offset of the bracket closing the one at `open`, or -1
+ */
+function findClosing(masked: string, open: number): number {
+  const opening = masked[open];
+  const closing = opening === "(" ? ")" : opening === "{" ? "}" : opening === "[" ? "]" : ">";
+  let depth = 0;
+  for (let i = open; i < masked.length; i++) {
+    if (masked[i] === opening) {
+      depth++;
+    } else if (masked[i] === closing) {
+      depth--;
+      if (depth === 0) return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Trimmed ranges of the comma-separated items between two offsets, ignoring nested commas
+ */
+function splitTopLevel(masked: string, from: number, to: number): Segment[] {
+  const segments: Segment[] = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(masked[start])) start++;
+    while (end > start && /\s/.test(masked[end - 1])) end--;
+    if (end > start) segments.push({ start, end });
+  };
+
+  let depth = 0;
+  let start = from;
+  for (let i = from; i < to; i++) {
+    const char = masked[i];
+    if ("([{<".includes(char)) {
+      depth++;
+    } else if (")]}".includes(char) || (char === ">" && masked[i - 1] !== "-")) {
+      depth--;
+    } else if (char === "," && depth === 0) {
+      push(start, i);
+      start = i + 1;
+    }
+  }
+  push(start, to);
+  return segments;
+}
+
+/**
+ * Apply non-overlapping edits, last first so earlier offsets stay valid
+ */
+function applyEdits(code: string, edits: Edit[]): string {
+  let result = code;
+  let limit = Infinity;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start || b.end - a.end)) {
+    if (edit.end > limit) continue;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    limit = edit.start;
+  }
+  return result;
+}
+
+/**
+ * Leading whitespace of the line containing an offset
+ */
+function getIndent(code: string, offset: number): string {
+  const lineStart = code.lastIndexOf("\n", offset - 1) + 1;
+  return code.slice(lineStart).match(/^[ \t]*/)?.[0] ?? "";
+}
+
+/**
+ * Indentation for a line added at the top of a block: the next line's, or one level in
+ */
+function getBodyIndent(code: string, start: number, bodyStart: number): string {
+  const next = code.slice(bodyStart).match(/^[ \t]*\n([ \t]*)\S/);
+  return next ? next[1] : `${getIndent(code, start)}    `;
+}
+
+/**
+ * Code between two offsets on one line, shortened for a caveat
+ */
+function getExcerpt(code: string, start: number, end: number): string {
+  const text = collapse(code.slice(start, end)).replace(/`/g, "'");
+  return text.length > MAX_EXCERPT ? `${text.slice(0, MAX_EXCERPT - 1)}…` : text;
+}
+
+/**
+ * Collapse whitespace runs to single spaces
+ */
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Format the migrated snippet, its diff and the caveats
+ */
+function formatMigration(
+  original: string,
+  migrated: string,
+  applied: Array<{ migration: Migration; changes: number }>,
+  caveats: Caveat[],
+  selected: Migration[],
+  proposals: Map<string, SwiftEvolutionProposal>,
+  target?: string
+): string {
+  const linkProposal = (id: string) => {
+    const proposal = proposals.get(id);
+    return proposal ? `[${id}](${proposal.link})` : id;
+  };
+
+  let output = `# 🔄 Swift Migration${target ? `: ${selected[0].name}` : ""}\n\n`;
+
+  if (applied.length === 0) {
+    output += `No legacy patterns found for: ${selected.map(m => m.name).join(", ")}.\n\n`;
+  } else {
+    output += `| Migration | Changes | Proposal | Swift |\n`;
+    output += `|-----------|---------|----------|-------|\n`;
+    for (const { migration, changes } of applied) {
+      output += `| ${migration.name} | ${changes} | ${linkProposal(migration.proposal)} | ${proposals.get(migration.proposal)?.swiftVersion ?? "?"} |\n`;
+    }
+    output += `\n`;
+
+    output += `## Migrated Code\n\n`;
+    output += "```swift\n" + migrated.replace(/\n?$/, "\n") + "```\n\n";
+
+    output += `## Diff\n\n`;
+    output += "```diff\n" + createUnifiedDiff(original, migrated, "original.swift", "migrated.swift") + "```\n\n";
+  }
+
+  const unique = [...new Map(caveats.map(c => [`${c.proposal}:${c.text}`, c])).values()];
+  if (unique.length > 0) {
+    output += `## ⚠️ Caveats\n\n`;
+    for (const caveat of unique) {
+      const proposal = proposals.get(caveat.proposal);
+      output += `- ${caveat.text} (${linkProposal(caveat.proposal)}${proposal ? `: ${proposal.title}` : ""})\n`;
+    }
+    output += `\n`;
+  }
+
+  output += `---\n`;
+  output += `*Rewrites are pattern-based; build and review the result before committing it.*\n`;
+
+  return output;
+}
+
+/**
+ * Format message for a target that isn't supported
+ */
+function formatUnknownTarget(target: string): string {
+  let output = `# Swift Migration\n\n`;
+  output += `> ⚠️ Unknown migration target "${target}"\n\n`;
+  output += `| Target | Migration | Proposal |\n`;
+  output += `|--------|-----------|----------|\n`;
+  for (const migration of MIGRATIONS) {
+    output += `| \`${migration.target}\` | ${migration.name} | ${migration.proposal} |\n`;
+  }
+  output += `\nOmit the target to apply every migration.\n`;
+  return output;
+}
@@ -2,17 +2,30 @@
  * Xcode Diagnostic Analyzer
  * 
  * Analyzes Xcode build logs and error messages,
- * providing explanations and fix-it suggestions.
+ * providing explanations and fix-it suggestions
+ * for every located diagnostic in the log or in
+ * JSON exported from an .xcresult bundle.
  */
 
-interface DiagnosticResult {
+import { DiagnosticNote, mergeDiagnostics, ParsedDiagnostic, parseDiagnostics } from "../lib/build-log-parser.js";
+import { ToolOutput } from "../lib/tool-output.js";
+import { readXcresultDiagnostics } from "../lib/xcresult.js";
+
+export interface DiagnosticResult {
   errorType: string;
   severity: "error" | "warning" | "note";
   message: string;
+  file?: string;
+  line?: number;
+  column?: number;
   explanation: string;
   fixItSuggestions: string[];
   relatedDocs: string[];
   codeExample?: string;
+  notes?: DiagnosticNote[];
+  excerpt?: string;
+  occurrences?: number;
+  testCase?: string;
 }
 
 // Common Swift/Xcode error patterns
@@ -192,26 +205,136 @@ const ERROR_PATTERNS: Array<{
   }
 ];
 
+export interface DiagnosticOutput {
+  issueCount: number;
+  errorCount: number;
+  warningCount: number;
+  diagnostics: DiagnosticResult[];
+}
+
+// Diagnostics that match no pattern are still reported, under their severity
+const UNCLASSIFIED: Record<DiagnosticResult["severity"], { type: string; explanation: string }> = {
+  error: {
+    type: "Compiler Error",
+    explanation: "The compiler reported an error this analyzer has no specific guidance for. The message and any notes describe the problem."
+  },
+  warning: {
+    type: "Compiler Warning",
+    explanation: "The compiler reported a warning this analyzer has no specific guidance for. Warnings don't fail the build but often become errors in a later Swift language mode."
+  },
+  note: {
+    type: "Note",
+    explanation: "A note the compiler printed without an error or warning before it."
+  }
+};
+
+// Test failures from an .xcresult bundle, whatever their message
+const TEST_FAILURE = {
+  type: "Test Failure",
+  explanation: "A test case recorded a failure: an assertion or expectation didn't hold, or the test threw an error.",
+  fixIts: [
+    "Compare the expected and actual values in the failure message",
+    "Run the test alone to rule out shared state between tests",
+    "Check for timing assumptions in asynchronous tests",
+    "Open the test report in Xcode's Report Navigator (Cmd+9) for attachments and logs"
+  ],
+  docs: ["https://developer.apple.com/documentation/xctest", "https://developer.apple.com/documentation/testing"]
+};
+
+const UNCLASSIFIED_FIX_ITS = [
+  "Read the notes under the diagnostic; they usually name the fix",
+  "Open the location in Xcode and apply any Fix-it it offers",
+  "Search the message on developer.apple.com or the Swift Forums"
+];
+
+// Occurrences listed under each issue type before the rest are counted
+const MAX_LISTED_PER_TYPE = 20;
+
 /**
  * Analyze Xcode build log and provide diagnostics
  */
 export async function analyzeBuildLog(
-  buildLog: string,
+  buildLog: string = "",
   errorCode?: string,
-  context?: string
-): Promise<string> {
+  context?: string,
+  xcresultPath?: string
+): Promise<ToolOutput<DiagnosticOutput>> {
+  let parsed = parseDiagnostics(buildLog);
+
+  if (xcresultPath) {
+    const fromResults = await readXcresultDiagnostics(xcresultPath);
+    if (!fromResults) {
+      return {
+        markdown: formatResultNotFound(xcresultPath),
+        data: { issueCount: 0, errorCount: 0, warningCount: 0, diagnostics: [] }
+      };
+    }
+    parsed = mergeDiagnostics([...parsed, ...fromResults]);
+  }
+
+  const diagnostics = parsed.length > 0
+    ? parsed.map(classifyDiagnostic)
+    : matchMessages(buildLog);
+
+  // If nothing was recognized, provide general analysis
+  if (diagnostics.length === 0) {
+    return {
+      markdown: xcresultPath && !buildLog.trim()
+        ? formatNoResultIssues(xcresultPath)
+        : analyzeUnknownError(buildLog, context),
+      data: { issueCount: 0, errorCount: 0, warningCount: 0, diagnostics }
+    };
+  }
+
+  return {
+    markdown: formatDiagnostics(diagnostics, buildLog, context),
+    data: {
+      issueCount: diagnostics.length,
+      errorCount: diagnostics.filter(d => d.severity === "error").length,
+      warningCount: diagnostics.filter(d => d.severity === "warning").length,
+      diagnostics
+    }
+  };
+}
+
+/**
+ * Explain a parsed diagnostic with the first pattern its message matches
+ */
+function classifyDiagnostic(diagnostic: ParsedDiagnostic): DiagnosticResult {
+  const errorDef = diagnostic.testCase
+    ? TEST_FAILURE
+    : ERROR_PATTERNS.find(def => def.pattern.test(diagnostic.message));
+  const fallback = UNCLASSIFIED[diagnostic.severity];
+
+  return {
+    errorType: errorDef?.type ?? fallback.type,
+    severity: diagnostic.severity,
+    message: diagnostic.message,
+    ...(diagnostic.file ? { file: diagnostic.file, line: diagnostic.line, column: diagnostic.column } : {}),
+    explanation: errorDef?.explanation ?? fallback.explanation,
+    fixItSuggestions: errorDef?.fixIts ?? UNCLASSIFIED_FIX_ITS,
+    relatedDocs: errorDef?.docs ?? [],
+    ...(diagnostic.notes.length > 0 ? { notes: diagnostic.notes } : {}),
+    ...(diagnostic.excerpt.length > 0 ? { excerpt: diagnostic.excerpt.join("\n") } : {}),
+    ...(diagnostic.occurrences > 1 ? { occurrences: diagnostic.occurrences } : {}),
+    ...(diagnostic.testCase ? { testCase: diagnostic.testCase } : {})
+  };
+}
+
+/**
+ * Match the pattern table against text with no diagnostic lines, such as a pasted message
+ */
+function matchMessages(text: string): DiagnosticResult[] {
+  const lines = text.split("\n");
   const diagnostics: DiagnosticResult[] = [];
-  
-  // Split log into lines for analysis
-  const lines = buildLog.split("\n");
-  
-  // Find matching error patterns
+
   for (const errorDef of ERROR_PATTERNS) {
-    const match = buildLog.match(errorDef.pattern);
+    const match = text.match(errorDef.pattern);
     if (match) {
+      const line = lines.find(l => l.includes(match[0])) ?? "";
       diagnostics.push({
         errorType: errorDef.type,
-        severity: buildLog.toLowerCase().includes("warning") ? "warning" : "error",
+        severity: /\bwarning\b/i.test(line) ? "warning" : "error",
         message: match[0],
         explanation: errorDef.explanation,
         fixItSuggestions: errorDef.fixIts,
@@ -220,16 +343,11 @@ export async function analyzeBuildLog(
     }
   }
 
-  // If no patterns matched, provide general analysis
-  if (diagnostics.length === 0) {
-    return analyzeUnknownError(buildLog, context);
-  }
-
-  return formatDiagnostics(diagnostics, buildLog, context);
+  return diagnostics;
 }
 
 /**
- * Format diagnostics into readable output
+ * Format diagnostics into readable output, grouped by issue type
  */
 function formatDiagnostics(
   diagnostics: DiagnosticResult[],
@@ -242,25 +360,42 @@ function formatDiagnostics(
     output += `**Context:** ${context}\n\n`;
   }
 
+  const errors = diagnostics.filter(d => d.severity === "error").length;
+  const warnings = diagnostics.filter(d => d.severity === "warning").length;
   output += `## Found ${diagnostics.length} Issue(s)\n\n`;
+  output += `${errors} error(s), ${warnings} warning(s)\n\n`;
 
-  for (let i = 0; i < diagnostics.length; i++) {
-    const diag = diagnostics[i];
-    const emoji = diag.severity === "error" ? "🔴" : diag.severity === "warning" ? "🟡" : "🔵";
+  // Errors first, then in order of first appearance
+  const groups = new Map<string, DiagnosticResult[]>();
+  for (const diag of [...diagnostics].sort((a, b) => severityRank(a) - severityRank(b))) {
+    groups.set(diag.errorType, [...(groups.get(diag.errorType) ?? []), diag]);
+  }
+
+  for (const [errorType, group] of groups) {
+    const first = group[0];
+    const emoji = first.severity === "error" ? "🔴" : first.severity === "warning" ? "🟡" : "🔵";
     
-    output += `### ${emoji} ${i + 1}. ${diag.errorType}\n\n`;
-    output += `**Message:**\n\`\`\`\n${diag.message}\n\`\`\`\n\n`;
-    output += `**Explanation:**\n${diag.explanation}\n\n`;
+    output += `### ${emoji} ${errorType} (${group.length})\n\n`;
+    output += `**Explanation:**\n${first.explanation}\n\n`;
+
+    output += `**Occurrences:**\n`;
+    for (const diag of group.slice(0, MAX_LISTED_PER_TYPE)) {
+      output += formatOccurrence(diag);
+    }
+    if (group.length > MAX_LISTED_PER_TYPE) {
+      output += `- ...and ${group.length - MAX_LISTED_PER_TYPE} more\n`;
+    }
+    output += `\n`;
     
     output += `**Fix-it Suggestions:**\n`;
-    for (const fix of diag.fixItSuggestions) {
+    for (const fix of first.fixItSuggestions) {
       output += `- ${fix}\n`;
     }
     output += `\n`;
 
-    if (diag.relatedDocs.length > 0) {
+    if (first.relatedDocs.length > 0) {
       output += `**Related Documentation:**\n`;
-      for (const doc of diag.relatedDocs) {
+      for (const doc of first.relatedDocs) {
         output += `- [${doc}](${doc})\n`;
       }
       output += `\n`;
@@ -280,6 +415,57 @@ function formatDiagnostics(
   return output;
 }
 
+/**
+ * One diagnostic as a list item, with its notes and source excerpt
+ */
+function formatOccurrence(diag: DiagnosticResult): string {
+  const location = diag.file
+    ? `\`${diag.file}:${diag.line}${diag.column ? `:${diag.column}` : ""}\` `
+    : "";
+  const testCase = diag.testCase ? `**${diag.testCase}**: ` : "";
+  const repeats = diag.occurrences ? ` (reported ${diag.occurrences} times)` : "";
+  let output = `- ${location}${testCase}${diag.message}${repeats}\n`;
+
+  for (const note of diag.notes ?? []) {
+    const noteLocation = note.file ? ` \`${note.file}:${note.line}${note.column ? `:${note.column}` : ""}\`` : "";
+    output += `  - note:${noteLocation} ${note.message}\n`;
+  }
+  if (diag.excerpt) {
+    output += `  \`\`\`\n${diag.excerpt.split("\n").map(l => `  ${l}`).join("\n")}\n  \`\`\`\n`;
+  }
+
+  return output;
+}
+
+/**
+ * Sort key putting errors before warnings before notes
+ */
+function severityRank(diag: DiagnosticResult): number {
+  return diag.severity === "error" ? 0 : diag.severity === "warning" ? 1 : 2;
+}
+
+/**
+ * Explain an xcresult path that couldn't be read
+ */
+function formatResultNotFound(xcresultPath: string): string {
+  let output = `# Xcode Build Diagnostic Analysis\n\n`;
+  output += `> ⚠️ Could not read "${xcresultPath}"\n\n`;
+  output += `Pass a JSON file exported from an .xcresult bundle, or a directory of them. Relative paths resolve from the server's working directory.\n`;
+  return output;
+}
+
+/**
+ * Report an xcresult export with no issue summaries
+ */
+function formatNoResultIssues(xcresultPath: string): string {
+  let output = `# Xcode Build Diagnostic Analysis\n\n`;
+  output += `## ✅ No Issues Recorded\n\n`;
+  output += `\`${xcresultPath}\` has no error, warning or test failure summaries.\n\n`;
+  output += `The bundle itself isn't read; if you passed one, export its JSON first:\n\n`;
+  output += `\`\`\`\nxcrun xcresulttool get --legacy --format json --path App.xcresult > App.json\n\`\`\`\n`;
+  return output;
+}
+
 /**
  * Analyze unknown/unmatched errors
  */
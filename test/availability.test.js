@@ -0,0 +1,26 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { compareVersions, getSwiftPlatformName, matchesPlatform } from "../dist/lib/availability.js";
+
+test("DocC platform names map to Swift availability names", () => {
+  assert.equal(getSwiftPlatformName("Mac Catalyst"), "macCatalyst");
+  assert.equal(getSwiftPlatformName("iPadOS"), "iOS");
+  assert.equal(getSwiftPlatformName("iOS"), "iOS");
+  assert.equal(getSwiftPlatformName("macOS"), "macOS");
+  assert.equal(getSwiftPlatformName("visionOS"), "visionOS");
+  assert.equal(getSwiftPlatformName("osx"), "macOS");
+  assert.equal(getSwiftPlatformName("DriverKit"), undefined);
+});
+
+test("platform filters accept common spellings", () => {
+  assert.equal(matchesPlatform("Mac Catalyst", "catalyst"), true);
+  assert.equal(matchesPlatform("macOS", "mac"), true);
+  assert.equal(matchesPlatform("iOS", "macOS"), false);
+});
+
+test("OS versions compare numerically", () => {
+  assert.ok(compareVersions("17.0", "16.4") > 0);
+  assert.ok(compareVersions("16", "16.0.1") < 0);
+  assert.equal(compareVersions("14.0", "14"), 0);
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { test } from "node:test";
+
+import { parseDiagnostics } from "../dist/lib/build-log-parser.js";
+
+const LOG = readFileSync(new URL("./fixtures/xcodebuild.txt", import.meta.url), "utf8");
+const diagnostics = parseDiagnostics(LOG);
+const at = (file, line) => diagnostics.find(d => d.file?.endsWith(file) && d.line === line);
+
+test("every located error and warning in the log is reported once", () => {
+  const located = new Set(
+    LOG.replace(/\x1b\[[0-9;]*m/g, "").split("\n")
+      .map(line => line.match(/^(.+?):(\d+):(\d+): (error|warning): (.*)$/))
+      .filter(match => match && match[1] !== "<unknown>")
+      .map(match => match.slice(1).join(":"))
+  );
+  const parsed = diagnostics
+    .filter(d => d.file)
+    .map(d => [d.file, d.line, d.column, d.severity, d.message].join(":"));
+  assert.equal(located.size, 6);
+  assert.deepEqual(new Set(parsed), located);
+  assert.equal(parsed.length, located.size);
+});
+
+test("repeats across arm64 and x86_64 are merged and counted", () => {
+  assert.equal(diagnostics.length, 10);
+  assert.equal(at("Store.swift", 14).occurrences, 2);
+  assert.equal(at("App.swift", 3).occurrences, 1);
+
+  const linker = diagnostics.filter(d => d.message.startsWith("Undefined symbols"));
+  assert.equal(linker.length, 1);
+  assert.equal(linker[0].occurrences, 2);
+});
+
+test("severities come from each line, not the whole log", () => {
+  assert.equal(at("Store.swift", 14).severity, "error");
+  assert.equal(at("Store.swift", 30).severity, "warning");
+  assert.equal(diagnostics.find(d => d.message.startsWith("ignoring duplicate libraries")).severity, "warning");
+});
+
+test("notes attach to the diagnostic before them, with their own location", () => {
+  assert.deepEqual(at("Store.swift", 22).notes, [
+    { message: "mutation of this property is only permitted within the actor", file: "/Users/ci/App/Sources/Model/Store.swift", line: 8, column: 9 }
+  ]);
+  // A blank line doesn't separate swiftc's framed excerpt from its notes
+  assert.deepEqual(at("CartView.swift", 12).notes.map(n => n.message), ["'init(store:)' declared here"]);
+  assert.deepEqual(at("Store.swift", 14).notes, []);
+  assert.equal(diagnostics.some(d => d.severity === "note"), false);
+});
+
+test("caret and framed excerpts attach to their diagnostic, a note's are dropped", () => {
+  assert.deepEqual(at("Store.swift", 14).excerpt, ["    var items: [Reciept] = []", "                ^~~~~~~"]);
+  assert.deepEqual(at("Store.swift", 22).excerpt, ["        total += amount", "        ^"]);
+  assert.deepEqual(at("CartView.swift", 12).excerpt, [
+    "12 |     var body: some View {",
+    "13 |         CartRow()",
+    "   |                `- error: missing argument for parameter 'store' in call",
+    "14 |     }"
+  ]);
+});
+
+test("the Undefined symbols block keeps the symbols it lists", () => {
+  const [linker] = diagnostics.filter(d => d.message.startsWith("Undefined symbols"));
+  assert.equal(linker.severity, "error");
+  assert.equal(linker.file, undefined);
+  assert.deepEqual(linker.excerpt, ["  \"_OBJC_CLASS_$_PaymentSheet\", referenced from:", "      in CheckoutView.o"]);
+  assert.ok(diagnostics.some(d => d.message === "linker command failed with exit code 1 (use -v to see invocation)"));
+});
+
+test("diagnostics without a source location have none", () => {
+  const unknown = diagnostics.find(d => d.message.startsWith("unable to load standard library"));
+  assert.equal(unknown.file, undefined);
+  assert.equal(unknown.line, undefined);
+});
+
+test("forty errors give forty located diagnostics", () => {
+  const log = Array.from({ length: 40 }, (_, i) => `/src/File${i}.swift:${i + 1}:5: error: cannot find type 'T${i}' in scope`).join("\n");
+  const parsed = parseDiagnostics(`${log}\n${log}\n`);
+  assert.equal(parsed.length, 40);
+  assert.ok(parsed.every((d, i) => d.file === `/src/File${i}.swift` && d.line === i + 1 && d.column === 5 && d.occurrences === 2));
+});
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+process.env.APPLE_DEV_MCP_DOCC_ARCHIVES = fileURLToPath(new URL("./fixtures/MyKit.doccarchive", import.meta.url));
+const { loadArchiveEntries } = await import("../dist/lib/docc-archive.js");
+const { searchSymbolIndex } = await import("../dist/lib/symbol-index.js");
+
+test("symbols and articles are indexed with qualified names", async () => {
+  const entries = await loadArchiveEntries();
+  assert.deepEqual(entries.map(e => [e.qualifiedName, e.kind]).sort(), [
+    ["Getting Started with MyKit", "article"],
+    ["Widget", "struct"],
+    ["Widget.render()", "method"]
+  ]);
+  assert.ok(entries.every(e => e.source === "MyKit.doccarchive" && e.framework === "MyKit"));
+});
+
+test("module and collection pages aren't searchable symbols", async () => {
+  const entries = await loadArchiveEntries();
+  assert.equal(entries.some(e => e.kind === "module" || e.title === "Widgets"), false);
+  assert.deepEqual(searchSymbolIndex(entries, "MyKit").map(m => m.entry.title), []);
+  assert.equal(searchSymbolIndex(entries, "Widget")[0].entry.title, "Widget");
+});
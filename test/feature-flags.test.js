@@ -0,0 +1,37 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { formatBuildSettings, getFeatureBuildSettings } from "../dist/lib/feature-flags.js";
+
+const proposal = extra => ({ id: "SE-0000", title: "", summary: "", keywords: [], status: "implemented", link: "", ...extra });
+
+test("an upcoming feature flag gets every build setting", () => {
+  const settings = getFeatureBuildSettings(proposal({ upcomingFeatureFlag: { flag: "ExistentialAny", enabledInLanguageMode: "7" } }));
+  assert.deepEqual(settings, {
+    flag: "ExistentialAny",
+    kind: "upcoming",
+    enabledInLanguageMode: "7",
+    packageSwift: `.enableUpcomingFeature("ExistentialAny")`,
+    otherSwiftFlags: "-enable-upcoming-feature ExistentialAny",
+    commandLine: "swiftc -enable-upcoming-feature ExistentialAny"
+  });
+});
+
+test("an experimental flag is used when there's no upcoming one", () => {
+  const settings = getFeatureBuildSettings(proposal({ experimentalFeatureFlag: "Lifetimes" }));
+  assert.equal(settings?.kind, "experimental");
+  assert.equal(settings?.packageSwift, `.enableExperimentalFeature("Lifetimes")`);
+  assert.equal(getFeatureBuildSettings(proposal({})), null);
+});
+
+test("formatted settings combine flags and note language modes and experiments", () => {
+  const markdown = formatBuildSettings([
+    getFeatureBuildSettings(proposal({ upcomingFeatureFlag: { flag: "StrictConcurrency", enabledInLanguageMode: "6" } })),
+    getFeatureBuildSettings(proposal({ experimentalFeatureFlag: "Lifetimes" }))
+  ]);
+  assert.match(markdown, /\.enableUpcomingFeature\("StrictConcurrency"\),\n {8}\.enableExperimentalFeature\("Lifetimes"\)/);
+  assert.match(markdown, /swiftc -enable-upcoming-feature StrictConcurrency -enable-experimental-feature Lifetimes/);
+  assert.match(markdown, /`StrictConcurrency` is on by default in the Swift 6 language mode/);
+  assert.match(markdown, /Experimental features can change/);
+  assert.equal(formatBuildSettings([]), "");
+});
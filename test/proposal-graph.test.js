@@ -0,0 +1,59 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { extractRelations, getRevisionChain, linkProposals } from "../dist/lib/proposal-graph.js";
+
+const proposal = (id, relations) => ({
+  id, title: id, summary: "", keywords: [], status: "implemented", link: "", ...(relations ? { relations } : {})
+});
+
+test("phrases name specific edges and other mentions are related", () => {
+  const relations = extractRelations("SE-0500", "This proposal supersedes SE-0490 and amends [SE-0389], building on se-0296. See SE-0500.");
+  assert.deepEqual(relations, [
+    { kind: "supersedes", id: "SE-0490" },
+    { kind: "amends", id: "SE-0389" },
+    { kind: "related", id: "SE-0296" }
+  ]);
+  assert.deepEqual(extractRelations("SE-0402", "Superseded by SE-0407."), [{ kind: "superseded-by", id: "SE-0407" }]);
+});
+
+test("linking adds the inverse of every edge", () => {
+  const linked = linkProposals([
+    proposal("SE-0389"),
+    proposal("SE-0402", [{ kind: "amends", id: "SE-0389" }]),
+    proposal("SE-0407", [{ kind: "related", id: "SE-0389" }])
+  ]);
+  const byId = new Map(linked.map(p => [p.id, p]));
+  assert.deepEqual(byId.get("SE-0389").relations, [
+    { kind: "amended-by", id: "SE-0402" },
+    { kind: "related", id: "SE-0407" }
+  ]);
+});
+
+test("a specific edge wins over related between the same proposals", () => {
+  const linked = linkProposals([
+    proposal("SE-0001", [{ kind: "related", id: "SE-0002" }]),
+    proposal("SE-0002", [{ kind: "superseded-by", id: "SE-0001" }])
+  ]);
+  assert.deepEqual(linked[0].relations, [{ kind: "supersedes", id: "SE-0002" }]);
+});
+
+test("the revision chain runs oldest first through the current design", () => {
+  const linked = linkProposals([
+    proposal("SE-0490"),
+    proposal("SE-0500", [{ kind: "previous-revision", id: "SE-0490" }]),
+    proposal("SE-0510", [{ kind: "supersedes", id: "SE-0500" }])
+  ]);
+  const byId = new Map(linked.map(p => [p.id, p]));
+  for (const id of ["SE-0490", "SE-0500", "SE-0510"]) {
+    assert.deepEqual(getRevisionChain(byId.get(id), byId), ["SE-0490", "SE-0500", "SE-0510"], id);
+  }
+});
+
+test("the revision chain stops at cycles and missing proposals", () => {
+  const a = proposal("SE-0001", [{ kind: "next-revision", id: "SE-0002" }, { kind: "previous-revision", id: "SE-0002" }]);
+  const b = proposal("SE-0002", [{ kind: "next-revision", id: "SE-0001" }]);
+  const byId = new Map([a, b].map(p => [p.id, p]));
+  assert.deepEqual(getRevisionChain(a, byId), ["SE-0002", "SE-0001"]);
+  assert.deepEqual(getRevisionChain(proposal("SE-0003", [{ kind: "superseded-by", id: "SE-0999" }]), byId), ["SE-0003", "SE-0999"]);
+});
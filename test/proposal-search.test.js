@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { searchProposals } from "../dist/lib/proposal-search.js";
+
+const proposal = (id, title, summary, keywords = []) => ({
+  id, title, summary, keywords, status: "implemented", link: `https://example.com/${id}`
+});
+
+const PROPOSALS = [
+  proposal("SE-0296", "Async/await", "Introduces async functions and the await operator.", ["async", "await", "concurrency"]),
+  proposal("SE-0306", "Actors", "Introduces actors, reference types that protect their mutable state.", ["actor", "isolation"]),
+  proposal("SE-0395", "Observability", "Introduces the Observable macro for observing changes to properties.", ["@Observable", "observation"]),
+  proposal("SE-0413", "Typed throws", "Functions can declare the type of error they throw.", ["typed throws", "throws(E)"]),
+  proposal("SE-0230", "Flatten nested optionals resulting from 'try?'", "Makes try? flatten optionals from throwing expressions.", ["try?"])
+];
+
+const ids = matches => matches.map(m => m.proposal.id);
+
+test("proposal IDs are found in any common spelling", () => {
+  for (const query of ["SE-0413", "se 413", "0413", "413"]) {
+    assert.deepEqual(ids(searchProposals(PROPOSALS, query, 5)), ["SE-0413"], query);
+  }
+});
+
+test("a phrase in the keywords ranks its proposal first", () => {
+  const matches = searchProposals(PROPOSALS, "typed throws in closures", 5);
+  assert.equal(matches[0].proposal.id, "SE-0413");
+});
+
+test("stemming lets word forms meet", () => {
+  assert.equal(searchProposals(PROPOSALS, "throwing", 5)[0].proposal.id, "SE-0413");
+  assert.equal(searchProposals(PROPOSALS, "actor", 5)[0].proposal.id, "SE-0306");
+});
+
+test("typos still find the proposal", () => {
+  assert.equal(searchProposals(PROPOSALS, "obsevable", 5)[0].proposal.id, "SE-0395");
+  assert.equal(searchProposals(PROPOSALS, "concurency", 5)[0].proposal.id, "SE-0296");
+});
+
+test("a query that is the title gets the title bonus", () => {
+  const [actors] = searchProposals(PROPOSALS, "Actors", 5);
+  assert.equal(actors.proposal.id, "SE-0306");
+  assert.ok(actors.score > 6);
+});
+
+test("stop words and unrelated words find nothing", () => {
+  assert.deepEqual(searchProposals(PROPOSALS, "how to use the", 5), []);
+  assert.deepEqual(searchProposals(PROPOSALS, "xylophone", 5), []);
+});
+
+test("weak matches are cut off relative to the best", () => {
+  const matches = searchProposals(PROPOSALS, "async await", 5);
+  assert.deepEqual(ids(matches), ["SE-0296"]);
+});
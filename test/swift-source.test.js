@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createLineLocator, maskCommentsAndStrings } from "../dist/lib/swift-source.js";
+
+test("masking keeps offsets, newlines and delimiters", () => {
+  const source = `let a = "hi" // note\nlet b = 1`;
+  const masked = maskCommentsAndStrings(source);
+  assert.equal(masked.length, source.length);
+  assert.equal(masked, `let a = "  "        \nlet b = 1`);
+});
+
+test("nested block comments are masked to their end", () => {
+  const masked = maskCommentsAndStrings("/* a /* b */ c */ code");
+  assert.equal(masked, "                  code");
+});
+
+test("interpolations are masked with the string around them", () => {
+  const masked = maskCommentsAndStrings(`print("\\(value + ")") @MainActor") ; after`);
+  assert.ok(!masked.includes("@MainActor"));
+  assert.ok(masked.endsWith(") ; after"));
+});
+
+test("multi-line and raw strings are masked", () => {
+  const source = `let x = """\n  await foo()\n  """\nlet y = #"a "quoted" \\d"#\nlet z = #/await/#\nawait bar()`;
+  const masked = maskCommentsAndStrings(source);
+  assert.equal(masked.match(/await/g)?.length, 1);
+  assert.ok(masked.endsWith("await bar()"));
+  assert.equal(masked.split("\n").length, source.split("\n").length);
+});
+
+test("unterminated single-line strings stop at the end of the line", () => {
+  const masked = maskCommentsAndStrings(`let s = "oops\nawait next()`);
+  assert.ok(masked.endsWith("await next()"));
+});
+
+test("the line locator maps offsets to 1-based lines", () => {
+  const source = "one\ntwo\n\nfour";
+  const lineOf = createLineLocator(source);
+  assert.equal(lineOf(0), 1);
+  assert.equal(lineOf(source.indexOf("two")), 2);
+  assert.equal(lineOf(source.indexOf("\n\n") + 1), 3);
+  assert.equal(lineOf(source.indexOf("four")), 4);
+});
@@ -0,0 +1,24 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { compareSwiftVersions, normalizeSwiftVersion } from "../dist/lib/swift-evolution.js";
+
+test("Swift versions compare numerically, patch included", () => {
+  assert.ok(compareSwiftVersions("5.10", "5.9") > 0);
+  assert.ok(compareSwiftVersions("6.0.3", "6.0") > 0);
+  assert.equal(compareSwiftVersions("6", "6.0"), 0);
+  assert.deepEqual(["6.0", "5.10", "Next", "5.9", "6.0.3"].sort(compareSwiftVersions), ["5.9", "5.10", "6.0", "6.0.3", "Next"]);
+});
+
+test("Next sorts after every release and equals itself", () => {
+  assert.ok(compareSwiftVersions("Next", "99.0") > 0);
+  assert.ok(compareSwiftVersions("6.2", "next") < 0);
+  assert.equal(compareSwiftVersions("Next", "next"), 0);
+});
+
+test("versions as callers write them are normalized", () => {
+  assert.equal(normalizeSwiftVersion("Swift 6"), "6.0");
+  assert.equal(normalizeSwiftVersion(" 5.10 "), "5.10");
+  assert.equal(normalizeSwiftVersion("next"), "Next");
+  assert.equal(normalizeSwiftVersion("latest"), undefined);
+});
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { isAmbiguous, levenshtein, searchSymbolIndex } from "../dist/lib/symbol-index.js";
+
+const entry = (title, kind, path, qualifiedName = title) => ({ title, qualifiedName, path, kind, framework: "swiftui" });
+
+const ENTRIES = [
+  entry("NavigationStack", "struct", "documentation/swiftui/navigationstack"),
+  entry("NavigationSplitView", "struct", "documentation/swiftui/navigationsplitview"),
+  entry("navigationTitle(_:)", "method", "documentation/swiftui/view/navigationtitle(_:)", "View.navigationTitle(_:)"),
+  entry("sheet(isPresented:onDismiss:content:)", "method", "documentation/swiftui/view/sheet(ispresented:ondismiss:content:)", "View.sheet(isPresented:onDismiss:content:)"),
+  entry("toolbar(content:)", "method", "documentation/swiftui/view/toolbar(content:)-5w0tj", "View.toolbar(content:)"),
+  entry("toolbar(content:)", "method", "documentation/swiftui/view/toolbar(content:)-7vdkx", "View.toolbar(content:)"),
+  entry("data(for:delegate:)", "method", "documentation/foundation/urlsession/data(for:delegate:)", "URLSession.data(for:delegate:)")
+];
+
+test("an exact name beats everything else", () => {
+  const [best] = searchSymbolIndex(ENTRIES, "NavigationStack");
+  assert.equal(best.entry.title, "NavigationStack");
+  assert.equal(best.matchType, "exact");
+  assert.equal(best.score, 103);
+});
+
+test("names match case-insensitively and without a leading @", () => {
+  const [best] = searchSymbolIndex(ENTRIES, "@navigationstack");
+  assert.equal(best.entry.title, "NavigationStack");
+  assert.equal(best.matchType, "case-insensitive");
+});
+
+test("a bare name finds the method with its argument labels", () => {
+  const [best] = searchSymbolIndex(ENTRIES, "sheet");
+  assert.equal(best.entry.title, "sheet(isPresented:onDismiss:content:)");
+  assert.equal(best.matchType, "name");
+});
+
+test("a signature matches entries whose labels it prefixes", () => {
+  const [best] = searchSymbolIndex(ENTRIES, "data(for:)");
+  assert.equal(best.entry.title, "data(for:delegate:)");
+  assert.equal(best.matchType, "signature");
+  assert.deepEqual(searchSymbolIndex(ENTRIES, "data(from:)").filter(m => m.matchType === "signature"), []);
+});
+
+test("a disambiguated path picks one overload", () => {
+  const [best, second] = searchSymbolIndex(ENTRIES, "toolbar(content:)-7vdkx");
+  assert.equal(best.entry.path, "documentation/swiftui/view/toolbar(content:)-7vdkx");
+  assert.equal(best.matchType, "exact");
+  assert.ok(!second || second.score < best.score);
+});
+
+test("typos and prefixes fall back to fuzzy matches", () => {
+  const [typo] = searchSymbolIndex(ENTRIES, "NavigatoinStack");
+  assert.equal(typo.entry.title, "NavigationStack");
+  assert.equal(typo.matchType, "fuzzy");
+
+  const prefixed = searchSymbolIndex(ENTRIES, "navig").map(m => m.entry.title);
+  assert.ok(prefixed.includes("NavigationSplitView"));
+  assert.deepEqual(searchSymbolIndex(ENTRIES, "zz"), []);
+});
+
+test("results are limited and sorted best first", () => {
+  const matches = searchSymbolIndex(ENTRIES, "navigation", 2);
+  assert.equal(matches.length, 2);
+  assert.ok(matches[0].score >= matches[1].score);
+});
+
+test("isAmbiguous reports a tie for the best score", () => {
+  assert.equal(isAmbiguous(searchSymbolIndex(ENTRIES, "toolbar(content:)")), true);
+  assert.equal(isAmbiguous(searchSymbolIndex(ENTRIES, "NavigationStack")), false);
+  assert.equal(isAmbiguous([]), false);
+});
+
+test("levenshtein counts edits and gives up on distant lengths", () => {
+  assert.equal(levenshtein("kitten", "sitting"), 3);
+  assert.equal(levenshtein("same", "same"), 0);
+  assert.equal(levenshtein("a", "abcdef"), Infinity);
+});
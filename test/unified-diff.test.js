@@ -0,0 +1,39 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+
+import { createUnifiedDiff } from "../dist/lib/unified-diff.js";
+
+test("identical texts have no diff", () => {
+  assert.equal(createUnifiedDiff("a\nb\n", "a\nb\n"), "");
+});
+
+test("a changed line is shown with its context", () => {
+  assert.equal(
+    createUnifiedDiff("a\nb\nc\n", "a\nB\nc\n", "Before.swift", "After.swift"),
+    "--- Before.swift\n+++ After.swift\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c\n"
+  );
+});
+
+test("distant changes get separate hunks and close ones share", () => {
+  const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`);
+  const distant = [...before];
+  distant[1] = "changed 2";
+  distant[17] = "changed 18";
+  const hunks = createUnifiedDiff(before.join("\n"), distant.join("\n")).match(/^@@.*@@$/gm);
+  assert.deepEqual(hunks, ["@@ -1,5 +1,5 @@", "@@ -15,6 +15,6 @@"]);
+
+  const close = [...before];
+  close[1] = "changed 2";
+  close[6] = "changed 7";
+  assert.equal(createUnifiedDiff(before.join("\n"), close.join("\n")).match(/^@@/gm)?.length, 1);
+});
+
+test("insertions and deletions are numbered from the line before an empty side", () => {
+  assert.equal(createUnifiedDiff("a\n", "a\nb\n", "a", "b", 0), "--- a\n+++ b\n@@ -1,0 +2,1 @@\n+b\n");
+  assert.equal(createUnifiedDiff("a\nb\n", "a\n", "a", "b", 0), "--- a\n+++ b\n@@ -2,1 +1,0 @@\n-b\n");
+});
+
+test("the longest common subsequence keeps moved-around lines", () => {
+  const diff = createUnifiedDiff("x\na\nb\nc\n", "a\nb\nc\ny\n");
+  assert.equal(diff, "--- a\n+++ b\n@@ -1,4 +1,4 @@\n-x\n a\n b\n c\n+y\n");
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+import path from "node:path";
+
+import { walkFiles } from "../dist/lib/walk-files.js";
+
+const fixtures = fileURLToPath(new URL("./fixtures", import.meta.url));
+const relative = files => files.map(f => path.relative(fixtures, f));
+
+test("files with the extension are listed depth first in name order", async () => {
+  const archive = path.join("MyKit.doccarchive", "data", "documentation");
+  assert.deepEqual(relative(await walkFiles(fixtures, { extension: ".json" })), [
+    path.join(archive, "mykit", "gettingstarted.json"),
+    path.join(archive, "mykit", "widget", "render().json"),
+    path.join(archive, "mykit", "widget.json"),
+    path.join(archive, "mykit", "widgets.json"),
+    path.join(archive, "mykit.json"),
+    path.join("xcresult", "build-only.json"),
+    path.join("xcresult", "ci-run.json")
+  ]);
+  assert.deepEqual(relative(await walkFiles(fixtures, { extension: ".txt" })), ["xcodebuild.txt"]);
+});
+
+test("the walk stops at maxFiles and skips the named directories", async () => {
+  assert.equal((await walkFiles(fixtures, { extension: ".json", maxFiles: 3 })).length, 3);
+  assert.deepEqual(
+    relative(await walkFiles(fixtures, { extension: ".json", skipDirectories: new Set(["MyKit.doccarchive"]) })),
+    [path.join("xcresult", "build-only.json"), path.join("xcresult", "ci-run.json")]
+  );
+});
+
+test("a missing directory lists nothing", async () => {
+  assert.deepEqual(await walkFiles(path.join(fixtures, "missing"), { extension: ".json" }), []);
+});
@@ -0,0 +1,66 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fileURLToPath } from "node:url";
+
+import { readXcresultDiagnostics } from "../dist/lib/xcresult.js";
+
+const fixture = name => fileURLToPath(new URL(`./fixtures/xcresult/${name}`, import.meta.url));
+
+test("error, warning and test failure summaries become diagnostics", async () => {
+  const diagnostics = await readXcresultDiagnostics(fixture("ci-run.json"));
+  assert.deepEqual(diagnostics.map(d => [d.severity, d.message.slice(0, 24)]), [
+    ["error", "Cannot find 'formatter' "],
+    ["error", "Command PhaseScriptExecu"],
+    ["warning", "'init(destination:isActi"],
+    ["error", "XCTAssertEqual failed: ("],
+    ["error", "Expectation failed: (car"]
+  ]);
+});
+
+test("zero-based document locations become 1-based lines and columns", async () => {
+  const [missing, script, deprecated, assertion] = await readXcresultDiagnostics(fixture("ci-run.json"));
+  assert.deepEqual([missing.file, missing.line, missing.column], ["/Users/ci/App/Sources/Checkout View.swift", 42, 13]);
+  assert.deepEqual([deprecated.file, deprecated.line, deprecated.column], ["/Users/ci/App/Sources/RootView.swift", 1, 1]);
+  assert.deepEqual([assertion.line, assertion.column], [28, 1]);
+  assert.equal(script.file, undefined);
+});
+
+test("issues repeated on the invocation and its actions are reported once", async () => {
+  const invocation = await readXcresultDiagnostics(fixture("ci-run.json"));
+  assert.equal(invocation.length, 5);
+  assert.ok(invocation.every(d => d.occurrences === 1));
+
+  // No invocation summary: the build action's issues appear on both of its results
+  const actions = await readXcresultDiagnostics(fixture("build-only.json"));
+  assert.equal(actions.length, 3);
+  assert.ok(actions.every(d => d.occurrences === 1));
+});
+
+test("test failures are attributed to their test case", async () => {
+  const diagnostics = await readXcresultDiagnostics(fixture("ci-run.json"));
+  assert.deepEqual(diagnostics.filter(d => d.testCase).map(d => d.testCase), [
+    "CartTests.testTotalIncludesTax()",
+    "CartTests.testClearEmptiesCart()"
+  ]);
+  assert.ok(diagnostics.filter(d => !d.message.includes("failed")).every(d => d.testCase === undefined));
+});
+
+test("a directory merges its exports, counting issues seen in more than one", async () => {
+  const diagnostics = await readXcresultDiagnostics(fixture(""));
+  assert.equal(diagnostics.length, 5);
+  assert.equal(diagnostics.find(d => d.line === 42).occurrences, 2);
+  assert.equal(diagnostics.find(d => d.testCase === "CartTests.testTotalIncludesTax()").occurrences, 1);
+});
+
+test("an unreadable path is null", async () => {
+  assert.equal(await readXcresultDiagnostics(fixture("missing.json")), null);
+});
+
+test("the analyzer explains xcresult issues like build log ones", async () => {
+  const { analyzeBuildLog } = await import("../dist/tools/xcode-diagnostic-analyzer.js");
+  const { data } = await analyzeBuildLog(undefined, undefined, undefined, fixture("ci-run.json"));
+  assert.deepEqual([data.issueCount, data.errorCount, data.warningCount], [5, 4, 1]);
+  assert.deepEqual(data.diagnostics.map(d => d.errorType), [
+    "Symbol Not Found", "Compiler Error", "Compiler Warning", "Test Failure", "Test Failure"
+  ]);
+});